@@ -1,21 +1,47 @@
 import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
-import { ShrinkRecord, ViewType, DeepDiveStatus } from './types';
+import { ShrinkRecord, ViewType, DeepDiveStatus, CloudSyncStatus, ImportBatch, ImportMode, ParsedSheet, MappingProfile, DetectedFormat, DraftRow, SkippedSheet, SegmentDefinition, DriverAssignment, FreezerCount, ParLevel, AnomalyMethod, MarketPeerGroup, DrilldownDimension, ViewFilters, ForensicStats, AIAnalysisEntry, ChatTurn } from './types';
 import { Icons } from './constants';
 import { AnalysisCharts } from './components/AnalysisCharts';
-import { queryMarketAIQuick, queryMarketAIDeep } from './services/geminiService';
-import * as XLSX from 'xlsx';
-
-declare global {
-  interface Window {
-    process: {
-      env: {
-        API_KEY?: string;
-      }
-    }
-  }
-}
-
-type SegmentFilter = 'ALL' | 'SODA_SNACK' | 'COLD';
+import { ImportHistoryPanel } from './components/ImportHistoryPanel';
+import { ColumnMappingWizard } from './components/ColumnMappingWizard';
+import { ImportValidationReport } from './components/ImportValidationReport';
+import { CategoryOverridesEditor } from './components/CategoryOverridesEditor';
+import { SegmentRulesEditor } from './components/SegmentRulesEditor';
+import { DriverScorecardView } from './components/DriverScorecardView';
+import { NamingConfusionPanel } from './components/NamingConfusionPanel';
+import { AnomalyPanel } from './components/AnomalyPanel';
+import { ForecastPanel } from './components/ForecastPanel';
+import { ComparePeriodsView } from './components/ComparePeriodsView';
+import { MarketBenchmarkView } from './components/MarketBenchmarkView';
+import { DepotFreezerView } from './components/DepotFreezerView';
+import { ParLevelView } from './components/ParLevelView';
+import { AuditReport } from './components/AuditReport';
+import { AIHistoryPanel, AIAnalysisView } from './components/AIHistoryPanel';
+import { ForensicThread } from './components/ForensicThread';
+import { PasteReportImport, ReviewRow } from './components/PasteReportImport';
+import { queryMarketAIQuick, queryMarketAIDeep, parseRawReportText, ForensicContext } from './services/geminiService';
+import { detectNamingConfusion } from './services/namingConfusionService';
+import { detectAnomalies } from './services/anomalyService';
+import { buildForecasts, MAX_FORECAST_HORIZON } from './services/forecastService';
+import { buildMarketBenchmarks, loadPeerGroups, savePeerGroups } from './services/benchmarkService';
+import { exportForensicWorkbook } from './services/exportService';
+import { buildVarianceImpact } from './services/forensicChartService';
+import { addAnalysisEntry, toggleAnalysisPin, removeAnalysisEntry, sameFilters, loadAIHistory, saveAIHistory } from './services/aiHistoryService';
+import { phantomShrinkById, loadFreezerCounts, saveFreezerCounts } from './services/freezerService';
+import { extractParLevels, parSheetsNeedMarket, mergeParLevels, loadParLevels, saveParLevels } from './services/parLevelService';
+import { loadAccessToken, saveAccessToken, authHeaders } from './services/accessTokenService';
+import { loadLedger, saveLedger, clearLedger, loadImportBatches, saveImportBatches, loadCloudSyncedIds, saveCloudSyncedIds } from './services/ledgerStore';
+import { parseSpreadsheetFile, describeFormat, extractSheetRows, draftRowToRecord, applyMappingProfiles, loadMappingProfiles, saveMappingProfiles } from './services/importService';
+import { listSkippedSheets } from './services/importValidationService';
+import { buildSegmentClassifier, withFallbackSegment, loadSegmentDefinitions, saveSegmentDefinitions } from './services/segmentService';
+import { buildDriverLookup, buildDriverScorecards, loadDriverAssignments, saveDriverAssignments } from './services/driverService';
+import { ALL_CATEGORIES, UNCATEGORIZED, applyCategories, loadCategoryOverrides, saveCategoryOverrides } from './services/categoryService';
+import { createImportBatch, applyImportBatch, rollbackImportBatch, findReplacedRecords, findSupersedingBatch, dedupeByMergeKey } from './services/importBatchService';
+import { fetchCloudLedger, pushCloudLedger, importToCloudLedger, diffLedger, applyLedgerChanges } from './services/cloudLedgerService';
+import { MONTH_ORDER, normalizePeriod, toPeriodKey, parsePeriodKey, currentPeriodKey, formatPeriodLabel, comparePeriods } from './services/periodService';
+
+// 'ALL' or the id of a segment from the segment rules
+type SegmentFilter = string;
 
 interface Notification {
   type: 'success' | 'error';
@@ -28,18 +54,44 @@ interface CalcExplanation {
   description: string;
 }
 
+interface MappingSession {
+  fileName: string;
+  period: string;
+  sheets: ParsedSheet[];
+  detected: DetectedFormat;
+}
+
+interface ValidationSession {
+  fileName: string;
+  period: string;
+  rows: DraftRow[];
+  skippedSheets: SkippedSheet[];
+}
+
+interface PendingUpload {
+  fileName: string;
+  period: string;
+  records: ShrinkRecord[];
+  markets: string[];
+  existingCount: number;
+  existingMarkets: string[];
+}
+
+// Par sheet without a Market column, waiting for the user to say which market it covers
+interface PendingParImport {
+  fileName: string;
+  sheets: ParsedSheet[];
+  marketName: string;
+}
+
 interface ItemDrilldown {
   name: string;
   type: 'shrink' | 'overage';
   total: number;
-  breakdown: { market: string; qty: number; value: number }[];
+  sourceLabel: string; // What each breakdown row is: a market for items, an item for markets and categories
+  breakdown: { source: string; qty: number; value: number }[];
 }
 
-const MONTH_ORDER = [
-  'January', 'February', 'March', 'April', 'May', 'June',
-  'July', 'August', 'September', 'October', 'November', 'December'
-];
-
 // 50 Powerful Forensic Prompts
 const MASTER_PROMPTS = [
   "Find naming confusion errors (e.g. Cheeseburger vs Classic Cheeseburger).",
@@ -94,34 +146,13 @@ const MASTER_PROMPTS = [
   "What is the recovery rate (Overage) for previous Shrink items?"
 ];
 
+// Records live in IndexedDB (see services/ledgerStore); these keys hold view preferences only
 const STORAGE_KEYS = {
-  RECORDS: 'shrink_records_v6',
   MONTHS: 'shrink_months_v6',
   MARKET: 'shrink_market_v6',
-  SEGMENT: 'shrink_segment_v6'
-};
-
-const humanizeMarketName = (name: string): string => {
-  if (!name) return '';
-  let cleaned = name.replace(/^(Market|Location|Name|Site|Loc|Mkt|Point of Sale|POS|Site Name):\s*/i, '');
-  const segments = cleaned.split(/\s*[-|:/]\s+/);
-  const meaningfulSegments = segments.filter(seg => {
-    const s = seg.trim();
-    if (!s) return false;
-    if (segments.length === 1) return true;
-    if (/^\d+$/.test(s)) return false;
-    if (/^[A-Z0-9]{2,4}$/.test(s)) return false;
-    return true;
-  });
-  if (meaningfulSegments.length > 0) return meaningfulSegments.join(' - ').trim();
-  return cleaned.trim() || name;
-};
-
-const normalizePeriod = (str: string): string => {
-  if (!str) return 'Unknown';
-  const normalized = str.trim().toLowerCase();
-  for (const m of MONTH_ORDER) if (normalized.includes(m.toLowerCase())) return m;
-  return str;
+  SEGMENT: 'shrink_segment_v6',
+  CATEGORY: 'shrink_category_v1',
+  ANOMALY_METHOD: 'shrink_anomaly_method_v1'
 };
 
 const App: React.FC = () => {
@@ -129,18 +160,73 @@ const App: React.FC = () => {
   const [isKeyActive, setIsKeyActive] = useState<boolean>(false);
   const [isInitializing, setIsInitializing] = useState(true);
   const [showSystemDetails, setShowSystemDetails] = useState(false);
-  const [systemInfo, setSystemInfo] = useState<{browserKey: string, workerData: any} | null>(null);
+  const [systemInfo, setSystemInfo] = useState<{workerData: any} | null>(null);
   const [connectionTestResult, setConnectionTestResult] = useState<string | null>(null);
+  const [accessTokenDraft, setAccessTokenDraft] = useState<string>(loadAccessToken());
   
   // Explanation Modal State
   const [explanation, setExplanation] = useState<CalcExplanation | null>(null);
   
+  // Audit Report State: replaces the app shell so only the report prints
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
   // Item Drilldown State
   const [drilldown, setDrilldown] = useState<ItemDrilldown | null>(null);
 
   // Notification State
   const [notification, setNotification] = useState<Notification | null>(null);
 
+  // Ledger State (hydrated from IndexedDB by the bootloader)
+  const [records, setRecords] = useState<ShrinkRecord[]>([]);
+  // Guards the persistence effect so the empty initial state never overwrites the stored ledger
+  const [isLedgerLoaded, setIsLedgerLoaded] = useState(false);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [gridYear, setGridYear] = useState<number>(() => new Date().getFullYear());
+
+  // Cloud Sync State: revision is null until the shared ledger has been reached
+  const [cloudStatus, setCloudStatus] = useState<CloudSyncStatus>('local');
+  const cloudRevisionRef = useRef<number | null>(null);
+  // The records array last exchanged with the cloud, so echoes of a pull aren't pushed back
+  const cloudSnapshotRef = useRef<ShrinkRecord[] | null>(null);
+  // Serializes pushes so each one is based on the revision returned by the previous
+  const cloudPushRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Remember what the cloud has seen so the next connect can tell unpushed records from teammate deletions
+  const markCloudSynced = useCallback((shared: ShrinkRecord[], revision: number) => {
+    cloudRevisionRef.current = revision;
+    cloudSnapshotRef.current = shared;
+    saveCloudSyncedIds(shared.map(r => r.id)).catch(() => {});
+  }, []);
+
+  // Adopt the shared ledger, first pushing records made on this device that the cloud has never seen
+  const connectCloudLedger = useCallback(async (localRecords: ShrinkRecord[], reportFailure = false): Promise<ShrinkRecord[] | null> => {
+    setCloudStatus('syncing');
+    try {
+      let cloud = await fetchCloudLedger();
+      const cloudIds = new Set<string>(cloud.records.map(r => r.id));
+      const syncedIds = new Set<string>(await loadCloudSyncedIds().catch(() => []));
+      const unpushed = localRecords.filter(r => !cloudIds.has(r.id) && !syncedIds.has(r.id));
+      if (unpushed.length > 0) {
+        await importToCloudLedger(unpushed);
+        // Re-read rather than splice locally, so writes that landed in between are picked up too
+        cloud = await fetchCloudLedger();
+        setNotification({ type: 'success', message: `Pushed ${unpushed.length} records made on this device to the shared ledger.` });
+      }
+      markCloudSynced(cloud.records, cloud.revision);
+      setCloudStatus('synced');
+      return cloud.records;
+    } catch (e: any) {
+      if (e?.message === 'AUTH_REQUIRED') {
+        setCloudStatus('locked');
+        setNotification({ type: 'error', message: 'The shared ledger needs the team access token. Add it in the Integrity Report.' });
+        return null;
+      }
+      setCloudStatus(cloudRevisionRef.current === null ? 'local' : 'error');
+      if (reportFailure) setNotification({ type: 'error', message: 'Shared ledger is unreachable. Working from this device only.' });
+      return null;
+    }
+  }, [markCloudSynced]);
+
   // Rotating Prompts State
   const [rotatedPrompts, setRotatedPrompts] = useState<string[]>([]);
 
@@ -155,7 +241,7 @@ const App: React.FC = () => {
     shufflePrompts();
   }, [shufflePrompts]);
   
-  // 1. BOOTLOADER: Fetch key from Worker on mount (Robust Version)
+  // 1. BOOTLOADER: Ask the Worker whether its Gemini proxy has a key (Robust Version)
   useEffect(() => {
     const initConfig = async () => {
       const paths = ['/api/config', 'api/config'];
@@ -180,8 +266,7 @@ const App: React.FC = () => {
 
           if (trimmed.startsWith('{')) {
             const data = JSON.parse(trimmed);
-            if (data.API_KEY) {
-              window.process.env.API_KEY = data.API_KEY;
+            if (data.aiEnabled) {
               setIsKeyActive(true);
               return; 
             }
@@ -196,7 +281,28 @@ const App: React.FC = () => {
       }
     };
 
-    initConfig().finally(() => {
+    const initLedger = async () => {
+      let stored: ShrinkRecord[] = [];
+      let localReady = false;
+      try {
+        stored = await loadLedger();
+        setImportBatches(await loadImportBatches());
+        localReady = true;
+      } catch (e: any) {
+        setNotification({ type: 'error', message: `Forensic ledger could not be opened: ${e?.message || 'IndexedDB unavailable'}` });
+      }
+
+      // Categorise once here (legacy rows, cloud pulls) rather than on every ledger change
+      const shared = await connectCloudLedger(stored);
+      const initial = applyCategories(shared || stored, categoryOverrides);
+      if (shared) cloudSnapshotRef.current = initial;
+      setRecords(initial);
+      const latestYear = initial.map(r => parsePeriodKey(r.period)?.year || 0).reduce((a, b) => Math.max(a, b), 0);
+      if (latestYear) setGridYear(latestYear);
+      setIsLedgerLoaded(localReady);
+    };
+
+    Promise.all([initConfig(), initLedger()]).finally(() => {
       setIsInitializing(false);
     });
   }, []);
@@ -212,24 +318,27 @@ const App: React.FC = () => {
 
     for (const path of paths) {
       try {
-        const res = await fetch(path);
+        const res = await fetch(path, { headers: authHeaders() });
+        if (res.status === 401 || res.status === 403) {
+          setSystemInfo({ workerData: { error: "AUTH_REQUIRED: enter the Team Access Token below to read Worker diagnostics." } });
+          setShowSystemDetails(true);
+          return;
+        }
         if (res.ok) {
           const workerData = await res.json();
-          const browserKey = (window.process?.env?.API_KEY as string) || "undefined";
           
-          // Self-heal: If we have a key in memory, ensure UI state reflects "Engine Active"
-          if (browserKey && browserKey !== "undefined" && browserKey.length > 10) {
+          // Self-heal: If the Worker holds a key, ensure UI state reflects "Engine Active"
+          if (workerData.key_detected) {
             setIsKeyActive(true);
           }
 
-          setSystemInfo({ browserKey, workerData });
+          setSystemInfo({ workerData });
           setShowSystemDetails(true);
           return;
         }
       } catch (e) {}
     }
     setSystemInfo({ 
-      browserKey: (window.process?.env?.API_KEY as string) || "undefined", 
       workerData: { error: "Failed to reach Worker diagnostic endpoint." } 
     });
     setShowSystemDetails(true);
@@ -251,23 +360,25 @@ const App: React.FC = () => {
     }
   };
 
-  const [records, setRecords] = useState<ShrinkRecord[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEYS.RECORDS);
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) { return []; }
-  });
 
-  const [selectedMonths, setSelectedMonths] = useState<Set<string>>(() => {
+  const [selectedPeriods, setSelectedPeriods] = useState<Set<string>>(() => {
     try {
       const saved = localStorage.getItem(STORAGE_KEYS.MONTHS);
-      const parsed = saved ? JSON.parse(saved) : [];
-      return new Set(parsed);
+      const parsed: string[] = saved ? JSON.parse(saved) : [];
+      return new Set(parsed.map(normalizePeriod));
     } catch (e) { return new Set(); }
   });
 
   const [selectedMarketFilter, setSelectedMarketFilter] = useState(() => localStorage.getItem(STORAGE_KEYS.MARKET) || 'All');
   const [activeSegment, setActiveSegment] = useState<SegmentFilter>(() => (localStorage.getItem(STORAGE_KEYS.SEGMENT) as SegmentFilter) || 'ALL');
+  const [selectedCategory, setSelectedCategory] = useState(() => localStorage.getItem(STORAGE_KEYS.CATEGORY) || 'All');
+  const [forecastHorizon, setForecastHorizon] = useState(MAX_FORECAST_HORIZON);
+  const [anomalyMethod, setAnomalyMethod] = useState<AnomalyMethod>(() => (localStorage.getItem(STORAGE_KEYS.ANOMALY_METHOD) as AnomalyMethod) || 'mad');
+  const [segments, setSegments] = useState<SegmentDefinition[]>(() => loadSegmentDefinitions());
+  const [isSegmentEditorOpen, setIsSegmentEditorOpen] = useState(false);
+
+  const selectableSegments = useMemo(() => withFallbackSegment(segments), [segments]);
+  const classifySegment = useMemo(() => buildSegmentClassifier(segments), [segments]);
 
   const uniqueMarkets = useMemo(() => {
     const m = new Set<string>();
@@ -276,83 +387,294 @@ const App: React.FC = () => {
     return ['All', ...sorted];
   }, [records]);
 
-  const filteredRecords = useMemo(() => {
+  // Category and segment filters only; benchmarking ranks every market
+  const segmentScopedRecords = useMemo(() => {
     return records.filter(r => {
-      const normPeriod = normalizePeriod(r.period);
-      if (selectedMonths.size > 0 && !selectedMonths.has(normPeriod)) return false;
-      if (selectedMarketFilter !== 'All' && r.marketName !== selectedMarketFilter) return false;
+      if (selectedCategory !== 'All' && r.category !== selectedCategory) return false;
       
-      const isCold = /^(KF|F\s|B\s)/i.test(r.itemNumber) || /^(KF|F\s|B\s)/i.test(r.itemName);
-      if (activeSegment === 'COLD') return isCold;
-      if (activeSegment === 'SODA_SNACK') return !isCold;
+      // A stored segment id whose rule was since deleted falls back to showing everything
+      if (activeSegment !== 'ALL' && selectableSegments.some(s => s.id === activeSegment)) {
+        return classifySegment(r.itemNumber, r.itemName).id === activeSegment;
+      }
 
       return true;
     });
-  }, [records, selectedMonths, selectedMarketFilter, activeSegment]);
+  }, [records, selectedCategory, activeSegment, selectableSegments, classifySegment]);
+
+  // Every filter except the period selection; anomaly baselines need the full history
+  const scopedRecords = useMemo(() => {
+    if (selectedMarketFilter === 'All') return segmentScopedRecords;
+    return segmentScopedRecords.filter(r => r.marketName === selectedMarketFilter);
+  }, [segmentScopedRecords, selectedMarketFilter]);
+
+  const filteredRecords = useMemo(() => {
+    if (selectedPeriods.size === 0) return scopedRecords;
+    return scopedRecords.filter(r => selectedPeriods.has(r.period));
+  }, [scopedRecords, selectedPeriods]);
 
-  const [quickAiText, setQuickAiText] = useState<string>('');
+  // The Forensic Vault investigation: prior turns are replayed to Gemini as conversation history
+  const [chatThread, setChatThread] = useState<ChatTurn[]>([]);
   const [aiUserPrompt, setAiUserPrompt] = useState<string>('');
   const [isQuickAnalyzing, setIsQuickAnalyzing] = useState(false);
   const [activeChip, setActiveChip] = useState<string | null>(null);
   const [deepDiveStatus, setDeepDiveStatus] = useState<DeepDiveStatus>('idle');
-  const [deepDiveResult, setDeepDiveResult] = useState<string>('');
+  const [deepDiveResult, setDeepDiveResult] = useState<{ text: string; filters: ViewFilters; failed: boolean } | null>(null);
+  const [aiHistory, setAiHistory] = useState<AIAnalysisEntry[]>([]);
+  const [isAIHistoryLoaded, setIsAIHistoryLoaded] = useState(false);
+  // History entries shown in place of the live answer: one when reopened, two when comparing
+  const [openAnalysisIds, setOpenAnalysisIds] = useState<string[]>([]);
 
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStatus, setProcessingStatus] = useState('');
-  const [activeUploadMonth, setActiveUploadMonth] = useState<string | null>(null);
+  const [activeUploadPeriod, setActiveUploadPeriod] = useState<string | null>(null);
+  const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
+  const [pendingParImport, setPendingParImport] = useState<PendingParImport | null>(null);
+  const [mappingSession, setMappingSession] = useState<MappingSession | null>(null);
+  const [validationSession, setValidationSession] = useState<ValidationSession | null>(null);
+  // Resolves the pasted-report form's commit once its import lands (true) or is abandoned (false)
+  const pastedCommitRef = useRef<((committed: boolean) => void) | null>(null);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<string, string>>(() => loadCategoryOverrides());
+  const [isCategoryEditorOpen, setIsCategoryEditorOpen] = useState(false);
+  const [driverAssignments, setDriverAssignments] = useState<DriverAssignment[]>(() => loadDriverAssignments());
+  const [freezerCounts, setFreezerCounts] = useState<FreezerCount[]>(() => loadFreezerCounts());
+  const [parLevels, setParLevels] = useState<ParLevel[]>(() => loadParLevels());
+  const [peerGroups, setPeerGroups] = useState<MarketPeerGroup[]>(() => loadPeerGroups());
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   // Persistence
+  useEffect(() => {
+    if (!isLedgerLoaded) return;
+    saveLedger(records).catch((e: any) => {
+      setNotification({ type: 'error', message: `Ledger write failed: ${e?.message || 'storage unavailable'}. Recent changes are not saved.` });
+    });
+  }, [records, isLedgerLoaded]);
+
+  useEffect(() => {
+    saveMappingProfiles(mappingProfiles);
+  }, [mappingProfiles]);
+
+  useEffect(() => {
+    saveCategoryOverrides(categoryOverrides);
+  }, [categoryOverrides]);
+
+  useEffect(() => {
+    saveSegmentDefinitions(segments);
+  }, [segments]);
+
+  useEffect(() => {
+    saveDriverAssignments(driverAssignments);
+  }, [driverAssignments]);
+
+  useEffect(() => {
+    saveFreezerCounts(freezerCounts);
+  }, [freezerCounts]);
+
+  useEffect(() => {
+    saveParLevels(parLevels);
+  }, [parLevels]);
+
+  useEffect(() => {
+    savePeerGroups(peerGroups);
+  }, [peerGroups]);
+
+  useEffect(() => {
+    // Anything analysed while the history was still loading stays on top
+    loadAIHistory()
+      .then(saved => setAiHistory(prev => [...prev, ...saved.filter(e => !prev.some(p => p.id === e.id))]))
+      .catch(() => setNotification({ type: 'error', message: 'Saved AI analyses could not be loaded.' }))
+      .finally(() => setIsAIHistoryLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isAIHistoryLoaded) return;
+    saveAIHistory(aiHistory).catch(() => {
+      setNotification({ type: 'error', message: 'AI analysis history could not be saved on this device. Delete or unpin old analyses to free space.' });
+    });
+  }, [aiHistory, isAIHistoryLoaded]);
+
+  // Keep the newest Vault turn in view while it streams
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [chatThread]);
+
+  // Re-categorise the ledger when overrides are edited; applyCategories hands back `prev` when nothing moved
+  useEffect(() => {
+    if (!isLedgerLoaded) return;
+    setRecords(prev => applyCategories(prev, categoryOverrides));
+  }, [categoryOverrides, isLedgerLoaded]);
+
+  // Categories are derived on this device, so categorising a pulled copy isn't a local edit to push back.
+  // Given `localBase`, edits made since that copy are replayed on top and go out with the next push.
+  const adoptSharedRecords = useCallback((shared: ShrinkRecord[], localBase?: ShrinkRecord[]) => {
+    const categorised = applyCategories(shared, categoryOverrides);
+    cloudSnapshotRef.current = categorised;
+    setRecords(prev => localBase ? applyLedgerChanges(categorised, diffLedger(localBase, prev)) : categorised);
+  }, [categoryOverrides]);
+
+  useEffect(() => {
+    if (!isLedgerLoaded) return;
+    saveImportBatches(importBatches).catch(() => {
+      setNotification({ type: 'error', message: 'Import history could not be saved.' });
+    });
+  }, [importBatches, isLedgerLoaded]);
+
+  // Push only what changed since the last exchange. If a teammate wrote in between, their copy
+  // (which now holds ours too) is adopted and anything edited during the push is replayed on top.
+  const pushLocalChanges = useCallback((pushed: ShrinkRecord[]) => {
+    cloudPushRef.current = cloudPushRef.current.then(async () => {
+      // This device may have been disconnected (flushed) while the push was queued
+      if (cloudRevisionRef.current === null) return;
+      try {
+        const baseRevision = cloudRevisionRef.current;
+        const changes = diffLedger(cloudSnapshotRef.current || [], pushed);
+        const result = await importToCloudLedger(changes.records, changes.deletedIds);
+        if (cloudRevisionRef.current === null) return;
+        if (result.revision === baseRevision + 1) {
+          markCloudSynced(pushed, result.revision);
+        } else {
+          const cloud = await fetchCloudLedger();
+          markCloudSynced(cloud.records, cloud.revision);
+          adoptSharedRecords(cloud.records, pushed);
+        }
+        setCloudStatus('synced');
+      } catch (e: any) {
+        if (e?.message === 'AUTH_REQUIRED') {
+          setCloudStatus('locked');
+          setNotification({ type: 'error', message: 'The shared ledger rejected this device\'s access token. Changes are saved on this device only.' });
+        } else {
+          setCloudStatus('error');
+          setNotification({ type: 'error', message: 'Cloud sync failed. Changes are saved on this device; retry to send them.' });
+        }
+      }
+    });
+  }, [markCloudSynced, adoptSharedRecords]);
+
+  // Cloud Persistence (debounced)
+  useEffect(() => {
+    if (cloudRevisionRef.current === null || records === cloudSnapshotRef.current) return;
+    setCloudStatus('syncing');
+    const timer = setTimeout(() => pushLocalChanges(records), 1500);
+    return () => clearTimeout(timer);
+  }, [records, pushLocalChanges]);
+
+  const refreshCloudLedger = async () => {
+    if (cloudStatus === 'syncing') return;
+    // After a failed push, retry the pending changes rather than reloading over them
+    if (cloudRevisionRef.current !== null && records !== cloudSnapshotRef.current) {
+      setCloudStatus('syncing');
+      pushLocalChanges(records);
+      return;
+    }
+    const shared = await connectCloudLedger(records, true);
+    if (shared) adoptSharedRecords(shared);
+  };
+
+  const saveTeamAccessToken = async () => {
+    saveAccessToken(accessTokenDraft.trim());
+    setShowSystemDetails(false);
+    await refreshCloudLedger();
+  };
+
   useEffect(() => {
     try {
-      localStorage.setItem(STORAGE_KEYS.RECORDS, JSON.stringify(records));
-      localStorage.setItem(STORAGE_KEYS.MONTHS, JSON.stringify(Array.from(selectedMonths)));
+      localStorage.setItem(STORAGE_KEYS.MONTHS, JSON.stringify(Array.from(selectedPeriods)));
       localStorage.setItem(STORAGE_KEYS.MARKET, selectedMarketFilter);
       localStorage.setItem(STORAGE_KEYS.SEGMENT, activeSegment);
+      localStorage.setItem(STORAGE_KEYS.CATEGORY, selectedCategory);
+      localStorage.setItem(STORAGE_KEYS.ANOMALY_METHOD, anomalyMethod);
     } catch (e) { console.warn("Storage quota limit reached."); }
-  }, [records, selectedMonths, selectedMarketFilter, activeSegment]);
+  }, [selectedPeriods, selectedMarketFilter, selectedCategory, activeSegment, anomalyMethod]);
+
+  // Only the data and the filters pointing into it go; mapping profiles, category overrides,
+  // segment rules, drivers, freezer counts, pars, peer groups and AI history are kept
+  const clearLocalLedger = (emptied: ShrinkRecord[] = []) => {
+    setRecords(emptied);
+    setImportBatches([]);
+    setSelectedPeriods(new Set());
+    setSelectedMarketFilter('All');
+    clearLedger().catch(() => setNotification({ type: 'error', message: 'Ledger purge failed.' }));
+    setView('report-upload');
+  };
 
+  // Clears this device only. Syncing stops first so the empty ledger is never sent as deletions;
+  // reconnecting reloads the shared copy.
   const purgeLedger = () => {
-    if (window.confirm("Purge historical forensic data?")) {
-      setRecords([]);
-      setSelectedMonths(new Set());
-      localStorage.clear();
-      setView('report-upload');
+    const connected = cloudRevisionRef.current !== null;
+    const scope = connected ? " The shared team ledger is not touched; this device stops syncing until you reconnect." : "";
+    if (!window.confirm(`Purge historical forensic data from this device?${scope}`)) return;
+    cloudRevisionRef.current = null;
+    cloudSnapshotRef.current = null;
+    if (connected) setCloudStatus('local');
+    clearLocalLedger();
+  };
+
+  // Empties the shared ledger for every teammate, so it takes a typed confirmation rather than a click
+  const purgeSharedLedger = async () => {
+    const baseRevision = cloudRevisionRef.current;
+    if (baseRevision === null || cloudStatus === 'syncing') return;
+    const typed = window.prompt('This deletes the shared team ledger for every teammate, along with this device\'s copy. Type PURGE to confirm.');
+    if (typed?.trim() !== 'PURGE') return;
+    setCloudStatus('syncing');
+    try {
+      const result = await pushCloudLedger([], baseRevision);
+      const emptied: ShrinkRecord[] = [];
+      markCloudSynced(emptied, result.revision);
+      setCloudStatus('synced');
+      clearLocalLedger(emptied);
+      setNotification({ type: 'success', message: 'Shared team ledger purged.' });
+    } catch (e: any) {
+      setCloudStatus(e?.message === 'AUTH_REQUIRED' ? 'locked' : 'error');
+      setNotification({ type: 'error', message: e?.message === 'LEDGER_CONFLICT'
+        ? 'A teammate changed the shared ledger meanwhile. Nothing was purged; reload with Retry, then purge again.'
+        : 'Shared ledger purge failed. Nothing was purged.' });
     }
   };
 
-  const populatedMonths = useMemo(() => {
+  const populatedPeriods = useMemo(() => {
     const set = new Set<string>();
     records.forEach(r => {
-      const norm = normalizePeriod(r.period);
-      if (MONTH_ORDER.includes(norm)) set.add(norm);
+      if (parsePeriodKey(r.period)) set.add(r.period);
     });
     return set;
   }, [records]);
 
+  // Years offered by the month grid: every year with data, plus the current year
+  const availableYears = useMemo(() => {
+    const years = new Set<number>([new Date().getFullYear()]);
+    populatedPeriods.forEach(p => {
+      const ym = parsePeriodKey(p);
+      if (ym) years.add(ym.year);
+    });
+    return Array.from(years).sort((a, b) => a - b);
+  }, [populatedPeriods]);
+
+
   const timelineStats = useMemo(() => {
     const ts: Record<string, { shrink: number; overage: number; revenue: number }> = {};
     records.forEach(r => {
-      const norm = normalizePeriod(r.period);
-      if (!ts[norm]) ts[norm] = { shrink: 0, overage: 0, revenue: 0 };
+      if (!ts[r.period]) ts[r.period] = { shrink: 0, overage: 0, revenue: 0 };
       
       const shrink = r.shrinkLoss || 0;
       const overage = r.overageGain || 0;
       
-      ts[norm].shrink += shrink;
-      ts[norm].overage += overage;
-      ts[norm].revenue += r.totalRevenue || 0;
+      ts[r.period].shrink += shrink;
+      ts[r.period].overage += overage;
+      ts[r.period].revenue += r.totalRevenue || 0;
     });
     return ts;
   }, [records]);
 
-  const stats = useMemo(() => {
+  // Shrink explained by depot freezer counts, keyed by record id
+  const phantomById: Record<string, number> = useMemo(() => phantomShrinkById(filteredRecords, freezerCounts), [filteredRecords, freezerCounts]);
+
+  const stats: ForensicStats = useMemo((): ForensicStats => {
     const filtered = filteredRecords;
     if (filtered.length === 0) return { 
       totalShrink: 0, totalRevenue: 0, totalOverage: 0, netVariance: 0, accuracy: 100, count: 0,
-      shrinkPct: 0, overagePct: 0, netPct: 0 
+      shrinkPct: 0, overagePct: 0, netPct: 0, phantomShrink: 0, realShrink: 0
     };
     
     let totalShrink = 0, totalRevenue = 0, totalOverage = 0;
@@ -362,6 +684,7 @@ const App: React.FC = () => {
       totalOverage += rec.overageGain || 0;
     });
     
+    const phantomShrink = Object.values(phantomById).reduce((sum, v) => sum + v, 0);
     const netVariance = totalOverage - totalShrink;
     const grossAbsoluteError = totalShrink + totalOverage; // Penalize both confusion and loss
 
@@ -376,14 +699,43 @@ const App: React.FC = () => {
       overagePct: totalRevenue > 0 ? (totalOverage / totalRevenue) * 100 : 0,
       netPct: totalRevenue > 0 ? (Math.abs(netVariance) / totalRevenue) * 100 : 0,
       accuracy: Number(Math.max(0, accuracy).toFixed(2)),
-      count: filtered.length
+      count: filtered.length,
+      phantomShrink,
+      realShrink: totalShrink - phantomShrink
     };
-  }, [filteredRecords]);
+  }, [filteredRecords, phantomById]);
+
+  const driverLookup = useMemo(() => buildDriverLookup(driverAssignments), [driverAssignments]);
+  const driverScorecards = useMemo(() => buildDriverScorecards(filteredRecords, driverLookup, classifySegment), [filteredRecords, driverLookup, classifySegment]);
+  const namingPairs = useMemo(() => detectNamingConfusion(filteredRecords), [filteredRecords]);
+  const forecasts = useMemo(() => buildForecasts(filteredRecords, classifySegment, forecastHorizon), [filteredRecords, classifySegment, forecastHorizon]);
+  const benchmarks = useMemo(() => {
+    const inPeriods = selectedPeriods.size === 0 ? segmentScopedRecords : segmentScopedRecords.filter(r => selectedPeriods.has(r.period));
+    return buildMarketBenchmarks(inPeriods, classifySegment);
+  }, [segmentScopedRecords, selectedPeriods, classifySegment]);
+  const anomalies = useMemo(() => {
+    const targetPeriods = Array.from(new Set<string>(filteredRecords.map(r => r.period)));
+    return detectAnomalies(scopedRecords, targetPeriods, anomalyMethod);
+  }, [scopedRecords, filteredRecords, anomalyMethod]);
+
+  const forensicContext: ForensicContext = useMemo(() => ({
+    segments,
+    driverScorecards,
+    namingPairs,
+    anomalies,
+    phantomShrink: stats.phantomShrink
+  }), [segments, driverScorecards, namingPairs, anomalies, stats.phantomShrink]);
 
   // Handle Item Drilldown
-  const handleItemDrilldown = useCallback((name: string, type: 'shrink' | 'overage') => {
-    // 1. Find all instances of this item in the currently filtered view
-    const relevantRecords = filteredRecords.filter(r => r.itemName === name);
+  const handleItemDrilldown = useCallback((name: string, type: 'shrink' | 'overage', dimension: DrilldownDimension = 'item') => {
+    // 1. Find all records for this item (or market/category) in the currently filtered view
+    const relevantRecords = filteredRecords.filter(r => {
+      if (dimension === 'market') return r.marketName === name;
+      if (dimension === 'category') return (r.category || UNCATEGORIZED) === name;
+      return r.itemName === name;
+    });
+    // Items break down by market; markets and categories break down by item
+    const sourceOf = (r: ShrinkRecord) => dimension === 'item' ? r.marketName : r.itemName;
     
     const marketMap = new Map<string, { qty: number; value: number }>();
     
@@ -395,16 +747,16 @@ const App: React.FC = () => {
       const rawVariance = r.invVariance;
 
       if (val && val > 0) {
-        const existing = marketMap.get(r.marketName) || { qty: 0, value: 0 };
-        marketMap.set(r.marketName, {
+        const existing = marketMap.get(sourceOf(r)) || { qty: 0, value: 0 };
+        marketMap.set(sourceOf(r), {
           qty: existing.qty + rawVariance, // For shrink this will be negative, for overage positive
           value: existing.value + val // This is the absolute dollar value impact
         });
       }
     });
 
-    const breakdown = Array.from(marketMap.entries()).map(([market, data]) => ({
-      market,
+    const breakdown = Array.from(marketMap.entries()).map(([source, data]) => ({
+      source,
       qty: data.qty,
       value: data.value
     })).sort((a, b) => b.value - a.value);
@@ -415,28 +767,56 @@ const App: React.FC = () => {
       name,
       type,
       total,
+      sourceLabel: dimension === 'item' ? 'Market Source' : 'Item',
       breakdown
     });
   }, [filteredRecords]);
 
+  // Human-readable filter summary for exports and the audit report header
+  const activeFilters: ViewFilters = useMemo(() => ({
+    periods: Array.from<string>(selectedPeriods).sort(comparePeriods),
+    market: selectedMarketFilter === 'All' ? 'All Markets' : selectedMarketFilter,
+    segment: selectableSegments.find(s => s.id === activeSegment)?.label || 'All Inventory',
+    category: selectedCategory === 'All' ? 'All Categories' : selectedCategory
+  }), [selectedPeriods, selectedMarketFilter, selectableSegments, activeSegment, selectedCategory]);
+
+  const exportWorkbook = () => {
+    try {
+      const fileName = exportForensicWorkbook(filteredRecords, stats, buildVarianceImpact(filteredRecords, phantomById, Infinity), activeFilters);
+      setNotification({ type: 'success', message: `Exported ${filteredRecords.length} records to ${fileName}.` });
+    } catch (error) {
+      setNotification({ type: 'error', message: 'Workbook export failed.' });
+    }
+  };
+
   // AI Logic
   const handleRunQuickAI = async (customPrompt?: string) => {
     const question = customPrompt || aiUserPrompt;
     if (!question.trim() || records.length === 0 || isQuickAnalyzing) return;
     setIsQuickAnalyzing(true);
     setActiveChip(customPrompt || 'custom');
-    setQuickAiText('');
     setAiUserPrompt('');
+    setOpenAnalysisIds([]);
     setView('ai-insights');
+    const filters = activeFilters;
+    const history = chatThread;
+    // The model turn is filled in place as the answer streams
+    const setAnswer = (text: string, failed?: boolean) => setChatThread(prev => [...prev.slice(0, -1), { role: 'model', text, failed }]);
+    setChatThread([...history, { role: 'user', text: question, filters }, { role: 'model', text: '' }]);
     try {
-      await queryMarketAIQuick(filteredRecords, stats, question, (text) => {
+      const result = await queryMarketAIQuick(filteredRecords, stats, forensicContext, question, history, (text) => {
         if (text === "AUTH_REQUIRED") {
           setIsKeyActive(false);
-          setQuickAiText("DIAGNOSTIC ENGINE OFFLINE. Check System Integrity.");
+          setAnswer("DIAGNOSTIC ENGINE OFFLINE. Check System Integrity.", true);
         } else {
-          setQuickAiText(text);
+          setAnswer(text);
         }
       });
+      if (result.failed) {
+        setChatThread(prev => prev.map((t, i) => i === prev.length - 1 ? { ...t, failed: true } : t));
+      } else {
+        setAiHistory(prev => addAnalysisEntry(prev, { kind: 'quick', question, model: result.model, filters, response: result.text }));
+      }
     } finally {
       setIsQuickAnalyzing(false);
       setActiveChip(null);
@@ -444,147 +824,269 @@ const App: React.FC = () => {
   };
 
   const startDeepDive = async () => {
-    if (deepDiveStatus === 'ready') {
-      setQuickAiText(deepDiveResult);
+    if (deepDiveStatus === 'ready' && deepDiveResult) {
+      // Joins the thread so follow-ups can dig into the diagnostic
+      setChatThread(prev => [...prev, { role: 'user', text: 'Run the deep dive diagnostic.', filters: deepDiveResult.filters }, { role: 'model', text: deepDiveResult.text, failed: deepDiveResult.failed }]);
+      setOpenAnalysisIds([]);
       setDeepDiveStatus('idle');
       setView('ai-insights');
       return;
     }
     if (deepDiveStatus === 'analyzing' || filteredRecords.length === 0) return;
     setDeepDiveStatus('analyzing');
-    queryMarketAIDeep(filteredRecords, stats).then(result => {
-      if (result === "AUTH_REQUIRED") {
+    const filters = activeFilters;
+    queryMarketAIDeep(filteredRecords, stats, forensicContext).then(result => {
+      if (result.text === "AUTH_REQUIRED") {
         setIsKeyActive(false);
         setDeepDiveStatus('idle');
         return;
       }
-      setDeepDiveResult(result);
+      if (!result.failed) {
+        setAiHistory(prev => addAnalysisEntry(prev, { kind: 'deep', question: 'Deep Dive Diagnostic', model: result.model, filters, response: result.text }));
+      }
+      setDeepDiveResult({ text: result.text, filters, failed: result.failed });
       setDeepDiveStatus('ready');
     }).catch(() => setDeepDiveStatus('idle'));
   };
 
+  const startNewInvestigation = () => {
+    if (isQuickAnalyzing) return;
+    setChatThread([]);
+    setOpenAnalysisIds([]);
+    setAiUserPrompt('');
+  };
+
+  const compareAnalysis = (id: string) => {
+    setOpenAnalysisIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev.slice(-1), id]);
+  };
+
+  const deleteAnalysis = (id: string) => {
+    if (!window.confirm('Delete this saved analysis?')) return;
+    setAiHistory(prev => removeAnalysisEntry(prev, id));
+    setOpenAnalysisIds(prev => prev.filter(x => x !== id));
+  };
+
   // Upload Logic
-  const handleFileUpload = (file: File, targetedMonth?: string) => {
+  // Upload Step 1: parse the file and open the column mapping step
+  const requestFileUpload = (file: File, targetPeriod?: string) => {
+    const period = targetPeriod || currentPeriodKey();
     setIsProcessing(true);
     setProcessingStatus('Forensic Sync Initiated...');
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        let allExtractedRecords: any[] = [];
-        let humanMarketNames: string[] = [];
-        workbook.SheetNames.forEach((sheetName) => {
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' });
-          if (!jsonData || jsonData.length < 5) return;
-          
-          // Metadata extraction attempts (Location/Market Name)
-          const locationVal = (jsonData[2] as any[])?.[0] || '';
-          const marketVal = (jsonData[3] as any[])?.[0] || '';
-          const cleanName = humanizeMarketName(String(marketVal || locationVal || sheetName));
-          if (!humanMarketNames.includes(cleanName)) humanMarketNames.push(cleanName);
-          
-          // --- HEADER DETECTION LOGIC ---
-          let colMap = { itemNum: 0, itemName: 1, variance: 2, revenue: 3, soldQty: 4, salePrice: 5, itemCost: 7 };
-          let headerRowIndex = -1;
-          
-          for (let i = 0; i < Math.min(jsonData.length, 50); i++) {
-            const row = jsonData[i] as any[];
-            if (!row) continue;
-            const rowStr = row.join('|').toLowerCase();
-
-            // Strict Header Detection: Must contain identifying column name AND a value column name
-            const hasItemKey = rowStr.includes('item') || rowStr.includes('description') || rowStr.includes('number') || rowStr.includes('code');
-            const hasValueKey = rowStr.includes('variance') || rowStr.includes('revenue') || rowStr.includes('qty') || rowStr.includes('diff');
-            
-            if (hasItemKey && hasValueKey) {
-              headerRowIndex = i;
-              row.forEach((cell, idx) => {
-                const s = String(cell || '').toLowerCase().trim();
-                if (s.includes('number') || s.includes('code')) colMap.itemNum = idx;
-                else if (s === 'item' || s === 'description') colMap.itemName = idx;
-                else if (s.includes('variance') || s.includes('diff')) {
-                   if (s.includes('qty') || s.includes('count')) colMap.variance = idx;
-                   else if (!s.includes('cost') && !s.includes('$')) colMap.variance = idx;
-                }
-                else if (s.includes('revenue')) colMap.revenue = idx;
-                else if (s.includes('cost')) colMap.itemCost = idx;
-                else if (['sold', 'qty', 'quantity', 'sales'].some(k => s.includes(k))) colMap.soldQty = idx;
-                else if (['price', 'retail', 'srp', 'sale'].some(k => s.includes(k))) colMap.salePrice = idx;
-              });
-              break;
-            }
-          }
-          if (headerRowIndex === -1) return;
-          
-          jsonData.slice(headerRowIndex + 1).forEach((row: any) => {
-            if (!row[colMap.itemNum] && !row[colMap.itemName]) return;
-            if (String(row[colMap.itemName]).toLowerCase().includes('total')) return;
-
-            const invVar = parseFloat(row[colMap.variance]) || 0;
-            const cost = parseFloat(row[colMap.itemCost]) || 0;
-            const price = parseFloat(row[colMap.salePrice]) || 0;
-            const qty = parseFloat(row[colMap.soldQty]) || 0;
-            
-            let totalRevenue = parseFloat(row[colMap.revenue]) || 0;
-            if (totalRevenue === 0 && price > 0 && qty > 0) {
-              totalRevenue = price * qty;
-            }
+        const { sheets, detected } = parseSpreadsheetFile(file.name, e.target?.result as ArrayBuffer);
+        setMappingSession({ fileName: file.name, period, sheets: applyMappingProfiles(sheets, mappingProfiles), detected });
+      } catch (error) {
+        setNotification({ type: 'error', message: 'Forensic extraction failed. File might be corrupted.' });
+      } finally {
+        setIsProcessing(false);
+      }
+    };
+    reader.readAsArrayBuffer(file);
+  };
 
-            const profit = price > 0 ? (price - cost) * qty : 0;
-            
-            const shrinkLoss = invVar < 0 ? Math.abs(invVar * cost) : 0;
-            const overageGain = invVar > 0 ? (invVar * cost) : 0;
-            const netVarianceValue = overageGain - shrinkLoss;
-
-            allExtractedRecords.push({
-              itemNumber: String(row[colMap.itemNum] || ''),
-              itemName: String(row[colMap.itemName] || ''),
-              invVariance: invVar,
-              totalRevenue: totalRevenue,
-              shrinkLoss: shrinkLoss,
-              overageGain: overageGain,
-              netVarianceValue: netVarianceValue,
-              unitCost: cost,
-              soldQty: qty,
-              salePrice: price,
-              itemProfit: profit,
-              marketName: cleanName,
-              period: targetedMonth || 'Current'
-            });
-          });
-        });
-        
-        if (allExtractedRecords.length === 0) {
-          setNotification({ type: 'error', message: 'No valid forensic data detected in file.' });
+  const importParLevels = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const sheets = parseSpreadsheetFile(file.name, e.target?.result as ArrayBuffer).sheets;
+        if (parSheetsNeedMarket(sheets)) {
+          // A sheet's detected market may just be a data cell, so only offer it when it's a known market
+          const guess = sheets.map(sh => sh.marketName).find(m => uniqueMarkets.includes(m) && m !== 'All') || '';
+          setPendingParImport({ fileName: file.name, sheets, marketName: guess });
           return;
         }
-
-        const period = targetedMonth || 'Current';
-        const newRecords = allExtractedRecords.map((r, i) => ({ ...r, id: `imp-${i}-${Date.now()}` } as ShrinkRecord));
-        
-        setRecords(prev => [...prev.filter(r => normalizePeriod(r.period) !== normalizePeriod(period)), ...newRecords]);
-        setSelectedMonths(prev => new Set(prev).add(normalizePeriod(period)));
-        
-        if (view === 'report-upload') {
-            setView('dashboard');
-        }
-
-        setNotification({ 
-            type: 'success', 
-            message: `Successfully synced ${allExtractedRecords.length} records across ${humanMarketNames.length} markets.` 
-        });
-
+        commitParImport(sheets);
       } catch (error) {
-        setNotification({ type: 'error', message: 'Forensic extraction failed. File might be corrupted.' });
-      } finally { 
-        setIsProcessing(false); 
+        setNotification({ type: 'error', message: 'Par level import failed. File might be corrupted.' });
       }
     };
     reader.readAsArrayBuffer(file);
   };
 
+  const commitParImport = (sheets: ParsedSheet[], fallbackMarket = '') => {
+    const imported = extractParLevels(sheets, fallbackMarket);
+    if (imported.length === 0) {
+      setNotification({ type: 'error', message: 'No par levels found. Expected Item and Par columns.' });
+      return;
+    }
+    setParLevels(prev => mergeParLevels(prev, imported));
+    setNotification({ type: 'success', message: `Imported ${imported.length} par levels.` });
+  };
+
+  const saveMappingProfile = (name: string, sheet: ParsedSheet): MappingProfile => {
+    const profile: MappingProfile = {
+      id: `profile-${Date.now()}`,
+      name,
+      signature: sheet.signature,
+      colMap: { ...sheet.colMap },
+      createdAt: new Date().toISOString()
+    };
+    // A newer profile for the same header layout supersedes the old one
+    setMappingProfiles(prev => [...prev.filter(p => p.signature !== profile.signature || !profile.signature), profile]);
+    return profile;
+  };
+
+  // Upload Step 2: pull rows from the confirmed mapping into the validation report
+  const confirmMapping = (sheets: ParsedSheet[]) => {
+    if (!mappingSession) return;
+    const { fileName, period } = mappingSession;
+    setMappingSession(null);
+    setValidationSession({
+      fileName,
+      period,
+      rows: sheets.flatMap(extractSheetRows),
+      skippedSheets: listSkippedSheets(sheets)
+    });
+  };
+
+  const settlePastedCommit = (committed: boolean) => {
+    pastedCommitRef.current?.(committed);
+    pastedCommitRef.current = null;
+  };
+
+  // Pasted report text: rows were extracted by the parser and corrected in the review table.
+  // The form keeps its rows until the returned promise reports the import was committed.
+  const confirmPastedReport = (rows: ReviewRow[], marketName: string, period: string): Promise<boolean> => {
+    const drafts: DraftRow[] = rows
+      .filter(row => row.itemNumber.trim() || row.itemName.trim())
+      .map((row, idx) => ({
+        id: row.key,
+        source: 'Pasted text',
+        rowNumber: idx + 1,
+        marketName,
+        itemNumber: row.itemNumber,
+        itemName: row.itemName,
+        variance: row.invVariance,
+        unitCost: row.unitCost,
+        totalRevenue: parseFloat(row.totalRevenue) || 0,
+        soldQty: 0,
+        salePrice: 0,
+        excluded: false
+      }));
+    settlePastedCommit(false);
+    setValidationSession({ fileName: 'Pasted report text', period, rows: drafts, skippedSheets: [] });
+    return new Promise<boolean>(resolve => { pastedCommitRef.current = resolve; });
+  };
+
+  const cancelValidation = () => {
+    setValidationSession(null);
+    settlePastedCommit(false);
+  };
+
+  // Upload Step 3: turn the reviewed rows into records; ask replace vs merge if the month has data
+  const confirmValidation = (rows: DraftRow[]) => {
+    if (!validationSession) return;
+    const { fileName, period } = validationSession;
+    setValidationSession(null);
+    stageImport(fileName, period, rows.filter(r => !r.excluded).map(r => draftRowToRecord(r, period)));
+  };
+
+  const stageImport = (fileName: string, period: string, extracted: Omit<ShrinkRecord, 'id'>[]) => {
+    if (extracted.length === 0) {
+      setNotification({ type: 'error', message: 'No valid forensic data detected in file.' });
+      settlePastedCommit(false);
+      return;
+    }
+
+    const stamp = Date.now();
+    const newRecords = applyCategories(extracted.map((r, i) => ({ ...r, id: `imp-${i}-${stamp}` } as ShrinkRecord)), categoryOverrides);
+    const markets = Array.from(new Set(newRecords.map(r => r.marketName)));
+    const existing = records.filter(r => r.period === period);
+    if (existing.length === 0) {
+      commitImport(fileName, period, 'replace', newRecords, markets);
+      return;
+    }
+    setPendingUpload({
+      fileName,
+      period,
+      records: newRecords,
+      markets,
+      existingCount: existing.length,
+      existingMarkets: Array.from(new Set(existing.map(r => r.marketName))).sort()
+    });
+  };
+
+  const cancelPendingUpload = () => {
+    setPendingUpload(null);
+    settlePastedCommit(false);
+  };
+
+  // Upload Step 4: apply the records to the ledger as a new import batch
+  const commitImport = (fileName: string, period: string, mode: ImportMode, incoming: ShrinkRecord[], markets: string[]) => {
+    // Merging keys on market + item + period, so the file itself may only carry each key once
+    const newRecords = mode === 'merge' ? dedupeByMergeKey(incoming) : incoming;
+    const duplicateCount = incoming.length - newRecords.length;
+    const replacedRecords = findReplacedRecords(records, newRecords, period, mode);
+    const batch = createImportBatch({
+      fileName,
+      period,
+      mode,
+      markets,
+      records: newRecords,
+      replacedRecords
+    });
+
+    setRecords(prev => applyImportBatch(prev, batch));
+    setImportBatches(prev => [batch, ...prev]);
+    setSelectedPeriods(prev => new Set(prev).add(period));
+
+    if (view === 'report-upload') {
+        setView('dashboard');
+    }
+
+    settlePastedCommit(true);
+    setNotification({ 
+        type: 'success', 
+        message: mode === 'merge'
+          ? `Merged ${newRecords.length} records into ${formatPeriodLabel(period)}; ${replacedRecords.length} existing rows superseded by the new file.${duplicateCount ? ` ${duplicateCount} duplicate rows in the file were collapsed.` : ''}`
+          : `Successfully synced ${newRecords.length} records across ${markets.length} markets for ${formatPeriodLabel(period)}.` 
+    });
+  };
+
+  const rollbackImport = (batchId: string) => {
+    const batch = importBatches.find(b => b.id === batchId);
+    if (!batch || batch.status !== 'applied') return;
+    const newer = findSupersedingBatch(importBatches, batch);
+    if (newer) {
+      setNotification({ type: 'error', message: `${newer.fileName} replaced rows from ${batch.fileName}. Roll that import back first.` });
+      return;
+    }
+    // Restored rows were categorised when first imported; overrides may have changed since
+    setRecords(prev => applyCategories(rollbackImportBatch(prev, batch), categoryOverrides));
+    setImportBatches(prev => prev.map(b => b.id === batchId ? { ...b, status: 'rolled-back' } : b));
+    setNotification({ type: 'success', message: `Rolled back ${batch.rowCount} records from ${batch.fileName}.` });
+  };
+
+  const reapplyImport = (batchId: string) => {
+    const batch = importBatches.find(b => b.id === batchId);
+    if (!batch || batch.status !== 'rolled-back') return;
+    const newer = findSupersedingBatch(importBatches, batch);
+    if (newer) {
+      setNotification({ type: 'error', message: `${newer.fileName} has since replaced the rows ${batch.fileName} would displace. Roll that import back first.` });
+      return;
+    }
+    setRecords(prev => applyCategories(applyImportBatch(prev, batch), categoryOverrides));
+    setImportBatches(prev => prev.map(b => b.id === batchId ? { ...b, status: 'applied' } : b));
+    setNotification({ type: 'success', message: `Re-applied ${batch.rowCount} records from ${batch.fileName}.` });
+  };
+
+  if (isReportOpen) {
+    return (
+      <AuditReport
+        records={filteredRecords}
+        allRecords={records}
+        stats={stats}
+        filters={activeFilters}
+        phantomShrinkById={phantomById}
+        classifySegment={classifySegment}
+        diagnostic={aiHistory.find(e => e.kind === 'deep' && sameFilters(e.filters, activeFilters))?.response || ''}
+        onClose={() => setIsReportOpen(false)}
+      />
+    );
+  }
+
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden font-sans text-slate-900">
       {/* Initialization Spinner */}
@@ -628,6 +1130,113 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Category Overrides */}
+      {isCategoryEditorOpen && (
+        <CategoryOverridesEditor
+          records={records}
+          overrides={categoryOverrides}
+          onChange={setCategoryOverrides}
+          onClose={() => setIsCategoryEditorOpen(false)}
+        />
+      )}
+
+      {/* Segment Rules */}
+      {isSegmentEditorOpen && (
+        <SegmentRulesEditor
+          segments={segments}
+          records={records}
+          onSave={(next) => { setSegments(next); setIsSegmentEditorOpen(false); }}
+          onCancel={() => setIsSegmentEditorOpen(false)}
+        />
+      )}
+
+      {/* Column Mapping Wizard */}
+      {mappingSession && (
+        <ColumnMappingWizard
+          fileName={mappingSession.fileName}
+          periodLabel={formatPeriodLabel(mappingSession.period)}
+          formatLabel={describeFormat(mappingSession.detected)}
+          sheets={mappingSession.sheets}
+          profiles={mappingProfiles}
+          onSaveProfile={saveMappingProfile}
+          onConfirm={confirmMapping}
+          onCancel={() => setMappingSession(null)}
+        />
+      )}
+
+      {/* Import Validation Report */}
+      {validationSession && (
+        <ImportValidationReport
+          fileName={validationSession.fileName}
+          periodLabel={formatPeriodLabel(validationSession.period)}
+          rows={validationSession.rows}
+          skippedSheets={validationSession.skippedSheets}
+          onConfirm={confirmValidation}
+          onCancel={cancelValidation}
+        />
+      )}
+
+      {/* Upload Mode Modal */}
+      {pendingUpload && (
+        <div className="fixed inset-0 z-[400] bg-black/50 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-200" onClick={cancelPendingUpload}>
+          <div className="bg-white max-w-xl w-full rounded-[2.5rem] p-10 shadow-2xl border border-slate-100" onClick={(e) => e.stopPropagation()}>
+            <h3 className="text-2xl font-black text-slate-900 mb-2">{formatPeriodLabel(pendingUpload.period)} already has data</h3>
+            <p className="text-slate-600 font-medium leading-relaxed mb-6">
+              {pendingUpload.existingCount} records from {pendingUpload.existingMarkets.length} markets are on file. How should <span className="font-bold text-slate-900">{pendingUpload.fileName}</span> be imported?
+            </p>
+            <div className="space-y-3">
+              <button
+                onClick={() => { const { fileName, period, records: incoming, markets } = pendingUpload; setPendingUpload(null); commitImport(fileName, period, 'merge', incoming, markets); }}
+                className="w-full text-left p-5 rounded-2xl border-2 border-indigo-200 bg-indigo-50 hover:border-indigo-500 transition-all"
+              >
+                <div className="text-sm font-black text-indigo-700 uppercase tracking-widest">Merge / Append</div>
+                <div className="text-xs text-slate-600 font-medium mt-1">Keep existing rows. Rows with the same market + item number are replaced by this file.</div>
+              </button>
+              <button
+                onClick={() => { const { fileName, period, records: incoming, markets } = pendingUpload; setPendingUpload(null); commitImport(fileName, period, 'replace', incoming, markets); }}
+                className="w-full text-left p-5 rounded-2xl border-2 border-slate-200 hover:border-red-300 transition-all"
+              >
+                <div className="text-sm font-black text-red-500 uppercase tracking-widest">Replace Month</div>
+                <div className="text-xs text-slate-600 font-medium mt-1">Discard all {pendingUpload.existingCount} existing records for this month and keep only this file.</div>
+              </button>
+            </div>
+            <button onClick={cancelPendingUpload} className="mt-6 w-full bg-slate-900 text-white py-4 rounded-xl font-bold uppercase tracking-widest text-xs hover:bg-slate-800 transition-all">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {/* Par Import Market Modal */}
+      {pendingParImport && (
+        <div className="fixed inset-0 z-[400] bg-black/50 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-200" onClick={() => setPendingParImport(null)}>
+          <div className="bg-white max-w-xl w-full rounded-[2.5rem] p-10 shadow-2xl border border-slate-100" onClick={(e) => e.stopPropagation()}>
+            <h3 className="text-2xl font-black text-slate-900 mb-2">Which market are these pars for?</h3>
+            <p className="text-slate-600 font-medium leading-relaxed mb-6">
+              <span className="font-bold text-slate-900">{pendingParImport.fileName}</span> has no Market column. Its pars will be saved against the market you choose.
+            </p>
+            <input
+              list="par-import-markets"
+              value={pendingParImport.marketName}
+              onChange={(e) => setPendingParImport({ ...pendingParImport, marketName: e.target.value })}
+              placeholder="Market name"
+              className="w-full bg-white border border-slate-200 text-slate-700 text-sm font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500"
+            />
+            <datalist id="par-import-markets">
+              {uniqueMarkets.filter((m: string) => m !== 'All').map((m: string) => <option key={m} value={m} />)}
+            </datalist>
+            <div className="mt-6 flex gap-3">
+              <button onClick={() => setPendingParImport(null)} className="flex-1 bg-slate-100 text-slate-600 py-4 rounded-xl font-bold uppercase tracking-widest text-xs hover:bg-slate-200 transition-all">Cancel</button>
+              <button
+                onClick={() => { const { sheets, marketName } = pendingParImport; setPendingParImport(null); commitParImport(sheets, marketName.trim()); }}
+                disabled={!pendingParImport.marketName.trim()}
+                className="flex-1 bg-slate-900 text-white py-4 rounded-xl font-bold uppercase tracking-widest text-xs hover:bg-slate-800 disabled:opacity-40 transition-all"
+              >
+                Import Pars
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Item Drilldown Modal */}
       {drilldown && (
         <div className="fixed inset-0 z-[400] bg-black/60 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-200" onClick={() => setDrilldown(null)}>
@@ -658,7 +1267,7 @@ const App: React.FC = () => {
               <table className="w-full text-left border-collapse">
                 <thead>
                   <tr className="border-b border-slate-100">
-                    <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Market Source</th>
+                    <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">{drilldown.sourceLabel}</th>
                     <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Var Qty</th>
                     <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Value Impact</th>
                   </tr>
@@ -666,7 +1275,7 @@ const App: React.FC = () => {
                 <tbody>
                   {drilldown.breakdown.map((row, idx) => (
                     <tr key={idx} className="border-b border-slate-50 last:border-0 hover:bg-slate-50 transition-colors">
-                      <td className="py-4 text-xs font-bold text-slate-700">{row.market}</td>
+                      <td className="py-4 text-xs font-bold text-slate-700">{row.source}</td>
                       <td className={`py-4 text-xs font-mono font-bold text-right ${row.qty < 0 ? 'text-red-500' : 'text-emerald-500'}`}>{row.qty}</td>
                       <td className="py-4 text-xs font-mono font-bold text-right text-slate-900">${row.value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
                     </tr>
@@ -698,7 +1307,7 @@ const App: React.FC = () => {
               <div className="space-y-8 flex-1 overflow-y-auto custom-scrollbar pr-4">
                  <div className="bg-black/40 p-8 rounded-3xl border border-slate-800">
                     <div className="flex justify-between items-center mb-4">
-                      <h3 className="text-indigo-400 font-black text-[10px] uppercase tracking-widest">Memory State</h3>
+                      <h3 className="text-indigo-400 font-black text-[10px] uppercase tracking-widest">Proxy State</h3>
                       <button 
                         onClick={runConnectionTest} 
                         className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all"
@@ -712,7 +1321,23 @@ const App: React.FC = () => {
                       </div>
                     )}
                     <div className="font-mono text-xs break-all space-y-2">
-                       <p><span className="text-slate-500">process.env.API_KEY:</span> <span className={systemInfo.browserKey.length > 20 ? 'text-emerald-400' : 'text-red-400'}>{systemInfo.browserKey.length > 10 ? `${systemInfo.browserKey.substring(0, 6)}...${systemInfo.browserKey.substring(systemInfo.browserKey.length - 4)}` : "NOT_IN_MEMORY"}</span></p>
+                       <p><span className="text-slate-500">Worker API_KEY:</span> <span className={systemInfo.workerData?.key_detected ? 'text-emerald-400' : systemInfo.workerData?.error ? 'text-amber-400' : 'text-red-400'}>{systemInfo.workerData?.key_detected ? "HELD_SERVER_SIDE" : systemInfo.workerData?.error ? "UNKNOWN" : "NOT_CONFIGURED"}</span></p>
+                    </div>
+                 </div>
+                 <div className="bg-black/40 p-8 rounded-3xl border border-slate-800">
+                    <h3 className="text-indigo-400 font-black text-[10px] uppercase tracking-widest mb-4">Team Access Token</h3>
+                    <p className="text-xs text-slate-500 mb-4">The Worker only serves the shared ledger and AI analysis to holders of its ACCESS_TOKEN. It is kept on this device.</p>
+                    <div className="flex gap-3">
+                      <input
+                        type="password"
+                        value={accessTokenDraft}
+                        onChange={(e) => setAccessTokenDraft(e.target.value)}
+                        placeholder="Paste the team token"
+                        className="flex-1 bg-slate-800 border border-slate-700 rounded-xl px-4 py-2 text-xs font-mono text-white outline-none focus:border-indigo-500"
+                      />
+                      <button onClick={saveTeamAccessToken} className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all">
+                        Save & Connect
+                      </button>
                     </div>
                  </div>
                  <div className="bg-black/40 p-8 rounded-3xl border border-slate-800">
@@ -747,13 +1372,31 @@ const App: React.FC = () => {
                 <div className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse" /> Engine Active
               </button>
             )}
-            <button onClick={purgeLedger} className="w-full flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-red-900/40 border border-slate-700 rounded-xl text-slate-400 hover:text-red-200 text-[9px] font-black uppercase tracking-widest transition-all">Flush Ledger</button>
+            <button onClick={refreshCloudLedger} disabled={cloudStatus === 'syncing'} className={`w-full flex items-center gap-2 px-3 py-2 border rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${
+              cloudStatus === 'synced' ? 'bg-sky-500/10 border-sky-500/20 text-sky-300 hover:bg-sky-500/20' :
+              cloudStatus === 'syncing' ? 'bg-slate-800 border-slate-700 text-slate-400 cursor-wait' :
+              cloudStatus === 'error' || cloudStatus === 'locked' ? 'bg-amber-500/10 border-amber-500/30 text-amber-300 hover:bg-amber-500/20' :
+              'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+            }`}>
+              <div className={`w-1.5 h-1.5 rounded-full ${cloudStatus === 'synced' ? 'bg-sky-400' : cloudStatus === 'syncing' ? 'bg-slate-400 animate-pulse' : cloudStatus === 'error' || cloudStatus === 'locked' ? 'bg-amber-400' : 'bg-slate-600'}`} />
+              {cloudStatus === 'synced' ? 'Cloud Synced' : cloudStatus === 'syncing' ? 'Syncing...' : cloudStatus === 'error' ? 'Sync Error · Retry' : cloudStatus === 'locked' ? 'Token Needed · Retry' : 'Local Only · Connect'}
+            </button>
+            <button onClick={purgeLedger} className="w-full flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-red-900/40 border border-slate-700 rounded-xl text-slate-400 hover:text-red-200 text-[9px] font-black uppercase tracking-widest transition-all">Flush This Device</button>
+            {cloudStatus === 'synced' && (
+              <button onClick={purgeSharedLedger} className="w-full flex items-center gap-2 px-3 py-2 bg-red-950/40 hover:bg-red-900/60 border border-red-900/60 rounded-xl text-red-300 hover:text-red-100 text-[9px] font-black uppercase tracking-widest transition-all">Purge Shared Ledger</button>
+            )}
           </div>
         </div>
         <nav className="flex-1 px-4 space-y-1.5">
           <button onClick={() => setView('report-upload')} className={`w-full flex items-center gap-3 px-5 py-4 rounded-2xl text-sm font-bold transition-all ${view === 'report-upload' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/20' : 'hover:bg-slate-800/50'}`}><Icons.Upload /> Drop Data</button>
           <button onClick={() => setView('dashboard')} disabled={records.length === 0} className={`w-full flex items-center gap-3 px-5 py-4 rounded-2xl text-sm font-bold transition-all ${view === 'dashboard' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/20' : 'hover:bg-slate-800/50 disabled:opacity-20'}`}><Icons.Dashboard /> Performance</button>
           <button onClick={() => setView('ai-insights')} disabled={records.length === 0} className={`w-full flex items-center gap-3 px-5 py-4 rounded-2xl text-sm font-bold transition-all ${view === 'ai-insights' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/20' : 'hover:bg-slate-800/50 disabled:opacity-20'}`}><Icons.AI /> AI Diagnosis</button>
+          <button onClick={() => setView('drivers')} disabled={records.length === 0} className={`w-full flex items-center gap-3 px-5 py-4 rounded-2xl text-sm font-bold transition-all ${view === 'drivers' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/20' : 'hover:bg-slate-800/50 disabled:opacity-20'}`}><Icons.Drivers /> Drivers</button>
+          <button onClick={() => setView('compare')} disabled={records.length === 0} className={`w-full flex items-center gap-3 px-5 py-4 rounded-2xl text-sm font-bold transition-all ${view === 'compare' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/20' : 'hover:bg-slate-800/50 disabled:opacity-20'}`}><Icons.Compare /> Compare</button>
+          <button onClick={() => setView('benchmark')} disabled={records.length === 0} className={`w-full flex items-center gap-3 px-5 py-4 rounded-2xl text-sm font-bold transition-all ${view === 'benchmark' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/20' : 'hover:bg-slate-800/50 disabled:opacity-20'}`}><Icons.Markets /> Benchmark</button>
+          <button onClick={() => setView('freezer')} disabled={records.length === 0} className={`w-full flex items-center gap-3 px-5 py-4 rounded-2xl text-sm font-bold transition-all ${view === 'freezer' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/20' : 'hover:bg-slate-800/50 disabled:opacity-20'}`}><Icons.Freezer /> Depot Freezer</button>
+          <button onClick={() => setView('pars')} disabled={records.length === 0} className={`w-full flex items-center gap-3 px-5 py-4 rounded-2xl text-sm font-bold transition-all ${view === 'pars' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/20' : 'hover:bg-slate-800/50 disabled:opacity-20'}`}><Icons.Pars /> Par Levels</button>
+          <button onClick={() => setView('imports')} className={`w-full flex items-center gap-3 px-5 py-4 rounded-2xl text-sm font-bold transition-all ${view === 'imports' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/20' : 'hover:bg-slate-800/50'}`}><Icons.History /> Imports</button>
         </nav>
       </aside>
 
@@ -761,20 +1404,33 @@ const App: React.FC = () => {
         {/* Remove Audit Modal - Replaced by Notification */}
         
         <div className="p-12 max-w-7xl mx-auto">
+          {/* Year Switcher */}
+          <div className="mb-6 flex items-center gap-3">
+            <button onClick={() => setGridYear(y => y - 1)} className="w-10 h-10 bg-white border border-slate-200 rounded-xl text-slate-400 hover:text-indigo-600 hover:border-indigo-300 font-black transition-all">‹</button>
+            <span className="text-2xl font-black tracking-tighter text-slate-900 w-20 text-center">{gridYear}</span>
+            <button onClick={() => setGridYear(y => y + 1)} className="w-10 h-10 bg-white border border-slate-200 rounded-xl text-slate-400 hover:text-indigo-600 hover:border-indigo-300 font-black transition-all">›</button>
+            <div className="flex gap-2 ml-4">
+              {availableYears.map(y => (
+                <button key={y} onClick={() => setGridYear(y)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${gridYear === y ? 'bg-indigo-600 text-white shadow-lg' : 'bg-white border border-slate-200 text-slate-400 hover:text-slate-600'}`}>{y}</button>
+              ))}
+            </div>
+          </div>
+
           {/* Month Grid Selector */}
           <div className="mb-14 flex gap-5 overflow-x-auto pb-8 custom-scrollbar scroll-smooth">
-            {MONTH_ORDER.map(m => {
-              const isPopulated = populatedMonths.has(m);
-              const isSelected = selectedMonths.has(m);
+            {MONTH_ORDER.map((monthName, idx) => {
+              const m = toPeriodKey(gridYear, idx + 1);
+              const isPopulated = populatedPeriods.has(m);
+              const isSelected = selectedPeriods.has(m);
               const mStats = timelineStats[m];
               const sPct = mStats && mStats.revenue ? (mStats.shrink / mStats.revenue) * 100 : 0;
               const oPct = mStats && mStats.revenue ? (mStats.overage / mStats.revenue) * 100 : 0;
               const nPct = mStats && mStats.revenue ? ((mStats.overage - mStats.shrink) / mStats.revenue) * 100 : 0;
               
               return (
-                <div key={m} onClick={() => isPopulated ? setSelectedMonths(prev => { const n = new Set(prev); if (n.has(m)) n.delete(m); else n.add(m); return n; }) : (setActiveUploadMonth(m), fileInputRef.current?.click())} 
+                <div key={m} onClick={() => isPopulated ? setSelectedPeriods(prev => { const n = new Set(prev); if (n.has(m)) n.delete(m); else n.add(m); return n; }) : (setActiveUploadPeriod(m), fileInputRef.current?.click())} 
                      className={`flex-shrink-0 w-44 h-60 rounded-[3rem] border-2 flex flex-col items-center justify-between p-6 cursor-pointer transition-all duration-300 group ${isSelected ? 'bg-white border-indigo-500 shadow-2xl scale-105 z-10' : isPopulated ? 'bg-white border-slate-100 hover:border-indigo-200 shadow-xl' : 'bg-slate-100 border-dashed border-slate-300 opacity-60 hover:opacity-100'}`}>
-                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{m}</span>
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{monthName}</span>
                   {isPopulated ? (
                     <div className="w-full space-y-2 pt-2 border-t border-slate-50 flex flex-col gap-1">
                         <div className="flex justify-between items-center text-[9px] font-black">
@@ -789,6 +1445,12 @@ const App: React.FC = () => {
                           <span className="text-slate-400 uppercase">Net</span>
                           <span className="text-indigo-500">{nPct.toFixed(2)}%</span>
                         </div>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); setActiveUploadPeriod(m); fileInputRef.current?.click(); }}
+                          className="mt-1 w-full py-1.5 rounded-xl bg-slate-50 text-slate-400 hover:bg-indigo-50 hover:text-indigo-600 text-[8px] font-black uppercase tracking-widest transition-all"
+                        >
+                          + Add File
+                        </button>
                     </div>
                   ) : (
                     <div className="w-12 h-12 bg-slate-200 rounded-full flex items-center justify-center"><Icons.Upload /></div>
@@ -797,28 +1459,50 @@ const App: React.FC = () => {
               );
             })}
           </div>
-          <input type="file" ref={fileInputRef} className="hidden" onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0], activeUploadMonth || undefined)} />
+          <input type="file" ref={fileInputRef} className="hidden" accept=".xlsx,.xls,.ods,.csv,.tsv,.tab,.txt" onChange={(e) => { if (e.target.files?.[0]) requestFileUpload(e.target.files[0], activeUploadPeriod || undefined); e.target.value = ''; }} />
 
           {/* Fallback for no data */}
-          {records.length === 0 && view !== 'report-upload' && (
+          {records.length === 0 && view !== 'report-upload' && view !== 'imports' && (
              <div className="text-center py-20 opacity-50 font-black text-slate-300 uppercase tracking-widest">Select a month above to load forensic data</div>
           )}
 
-          {/* SHARED FILTERS (Dashboard & AI) */}
-          {records.length > 0 && (view === 'dashboard' || view === 'ai-insights') && (
+          {/* SHARED FILTERS (Dashboard, AI, Drivers, Compare & Benchmark) */}
+          {records.length > 0 && (view === 'dashboard' || view === 'ai-insights' || view === 'drivers' || view === 'compare' || view === 'benchmark') && (
               <div className="flex flex-wrap items-center justify-between gap-6 mb-8 animate-in fade-in slide-in-from-bottom-5 duration-700 px-1">
                  <div className="bg-white p-1.5 rounded-2xl border border-slate-200 shadow-sm flex items-center">
-                    {(['ALL', 'SODA_SNACK', 'COLD'] as SegmentFilter[]).map(seg => (
+                    {[{ id: 'ALL', label: 'All Inventory' }, ...selectableSegments].map(seg => (
                        <button 
-                         key={seg}
-                         onClick={() => setActiveSegment(seg)}
-                         className={`px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${activeSegment === seg ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-50'}`}
+                         key={seg.id}
+                         onClick={() => setActiveSegment(seg.id)}
+                         className={`px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${activeSegment === seg.id ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-50'}`}
                        >
-                         {seg === 'ALL' ? 'All Inventory' : seg === 'SODA_SNACK' ? 'Snacks & Drinks' : 'Cold Food'}
+                         {seg.label}
                        </button>
                     ))}
+                    <button 
+                      onClick={() => setIsSegmentEditorOpen(true)}
+                      title="Edit segment rules"
+                      className="px-4 py-3 rounded-xl text-sm text-slate-400 hover:text-indigo-600 hover:bg-slate-50 transition-all"
+                    >
+                      ⚙
+                    </button>
                  </div>
                  
+                 <div className="flex items-center gap-4">
+                 <div className="relative group">
+                    <select 
+                      value={selectedCategory} 
+                      onChange={(e) => setSelectedCategory(e.target.value)}
+                      className="appearance-none bg-white border border-slate-200 text-slate-700 text-xs font-bold py-4 pl-6 pr-12 rounded-2xl shadow-sm outline-none focus:border-indigo-500 hover:border-indigo-300 transition-all cursor-pointer uppercase tracking-wider"
+                    >
+                       <option value="All">All Categories</option>
+                       {ALL_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400"><Icons.Dashboard /></div>
+                 </div>
+
+                 {/* Benchmarking always ranks every market */}
+                 {view !== 'benchmark' && (
                  <div className="relative group">
                     <select 
                       value={selectedMarketFilter} 
@@ -829,6 +1513,26 @@ const App: React.FC = () => {
                     </select>
                     <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400"><Icons.Markets /></div>
                  </div>
+                 )}
+
+                 <button
+                   onClick={exportWorkbook}
+                   disabled={filteredRecords.length === 0}
+                   title="Download the filtered view as an Excel workbook"
+                   className="flex items-center gap-2 bg-white border border-slate-200 text-slate-700 text-xs font-bold py-4 px-6 rounded-2xl shadow-sm hover:border-indigo-300 hover:text-indigo-600 disabled:opacity-30 transition-all uppercase tracking-wider"
+                 >
+                   <Icons.Download /> Export
+                 </button>
+
+                 <button
+                   onClick={() => setIsReportOpen(true)}
+                   disabled={filteredRecords.length === 0}
+                   title="Build a print-ready audit report (save as PDF from the print dialog)"
+                   className="flex items-center gap-2 bg-white border border-slate-200 text-slate-700 text-xs font-bold py-4 px-6 rounded-2xl shadow-sm hover:border-indigo-300 hover:text-indigo-600 disabled:opacity-30 transition-all uppercase tracking-wider"
+                 >
+                   <Icons.Report /> Audit Report
+                 </button>
+                 </div>
               </div>
           )}
 
@@ -845,6 +1549,13 @@ const App: React.FC = () => {
                         <p className="text-[10px] font-black text-slate-400 uppercase mb-4 tracking-widest">Gross Shrink</p>
                         <p className="text-4xl lg:text-5xl font-black text-red-500 tracking-tighter">-${stats.totalShrink.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
                         <p className="text-xs font-bold text-red-400 mt-2 bg-red-50 inline-block px-2 py-1 rounded-lg border border-red-100">{stats.shrinkPct.toFixed(2)}% of Rev</p>
+                        {stats.phantomShrink > 0 && (
+                          <p className="text-[10px] font-black uppercase tracking-widest mt-3">
+                            <span className="text-red-500">Real ${stats.realShrink.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                            <span className="text-slate-300"> · </span>
+                            <span className="text-sky-500">Phantom ${stats.phantomShrink.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                          </p>
+                        )}
                     </div>
                  </div>
                  
@@ -886,7 +1597,68 @@ const App: React.FC = () => {
                     </div>
                  </div>
               </div>
-              <AnalysisCharts data={filteredRecords} allRecords={records} onItemAnalysis={handleItemDrilldown} />
+              <AnomalyPanel anomalies={anomalies} method={anomalyMethod} onMethodChange={setAnomalyMethod} onItemAnalysis={handleItemDrilldown} />
+              <NamingConfusionPanel pairs={namingPairs} />
+              <AnalysisCharts
+                data={filteredRecords}
+                allRecords={records}
+                onItemAnalysis={handleItemDrilldown}
+                onEditCategories={() => setIsCategoryEditorOpen(true)}
+                classifySegment={classifySegment}
+                phantomShrinkById={phantomById}
+                shrinkForecast={forecasts[0]?.forecasts.shrinkPct || []}
+                forecastHorizon={forecastHorizon}
+                onForecastHorizonChange={setForecastHorizon}
+              />
+              <ForecastPanel forecasts={forecasts} horizon={forecastHorizon} />
+            </div>
+          )}
+
+          {/* DRIVER SCORECARD VIEW */}
+          {view === 'drivers' && records.length > 0 && (
+            <div className="animate-in fade-in slide-in-from-bottom-5 duration-700">
+              <DriverScorecardView
+                records={records}
+                scorecards={driverScorecards}
+                assignments={driverAssignments}
+                lookup={driverLookup}
+                onChange={setDriverAssignments}
+              />
+            </div>
+          )}
+
+          {/* PERIOD COMPARE VIEW */}
+          {view === 'compare' && records.length > 0 && (
+            <div className="animate-in fade-in slide-in-from-bottom-5 duration-700">
+              <ComparePeriodsView records={scopedRecords} classifySegment={classifySegment} onItemAnalysis={handleItemDrilldown} />
+            </div>
+          )}
+
+          {/* MARKET BENCHMARK VIEW */}
+          {view === 'benchmark' && records.length > 0 && (
+            <div className="animate-in fade-in slide-in-from-bottom-5 duration-700">
+              <MarketBenchmarkView benchmarks={benchmarks} groups={peerGroups} onGroupsChange={setPeerGroups} />
+            </div>
+          )}
+
+          {/* DEPOT FREEZER VIEW */}
+          {view === 'freezer' && records.length > 0 && (
+            <div className="animate-in fade-in slide-in-from-bottom-5 duration-700">
+              <DepotFreezerView records={records} counts={freezerCounts} classifySegment={classifySegment} onChange={setFreezerCounts} />
+            </div>
+          )}
+
+          {/* PAR LEVEL VIEW */}
+          {view === 'pars' && records.length > 0 && (
+            <div className="animate-in fade-in slide-in-from-bottom-5 duration-700">
+              <ParLevelView records={records} levels={parLevels} counts={freezerCounts} classifySegment={classifySegment} onChange={setParLevels} onImport={importParLevels} />
+            </div>
+          )}
+
+          {/* IMPORT HISTORY VIEW */}
+          {view === 'imports' && (
+            <div className="animate-in fade-in slide-in-from-bottom-5 duration-700">
+              <ImportHistoryPanel batches={importBatches} onRollback={rollbackImport} onReapply={reapplyImport} />
             </div>
           )}
 
@@ -898,21 +1670,31 @@ const App: React.FC = () => {
                    <h2 className="text-4xl font-black mb-4 tracking-tighter text-slate-900">Initialization</h2>
                    <div className="text-slate-500 mb-8 font-medium text-lg space-y-2">
                       <p>Use the <span className="text-indigo-600 font-bold uppercase text-xs tracking-widest bg-indigo-50 px-2 py-1 rounded-lg">Month Grid</span> above to upload reports.</p>
-                      <p className="text-sm opacity-70">Click any empty month slot to import Excel data for that specific period.</p>
+                      <p className="text-sm opacity-70">Click any empty month slot to import Excel, ODS, CSV or TSV data for that specific period, or use <span className="font-bold">+ Add File</span> on a loaded month to merge another workbook.</p>
                    </div>
                 </div>
+                <div className="mt-12 w-full flex justify-center">
+                   <PasteReportImport onParse={parseRawReportText} onCommit={confirmPastedReport} />
+                </div>
              </div>
           )}
 
           {/* AI FORENSIC HUB VIEW */}
           {view === 'ai-insights' && (
-            <div className="max-w-6xl mx-auto animate-in zoom-in-95 duration-700">
+            <div className="max-w-7xl mx-auto animate-in zoom-in-95 duration-700">
               <div className="bg-white rounded-[5rem] shadow-2xl overflow-hidden min-h-[850px] flex flex-col border border-slate-200">
                 <div className="bg-slate-900 p-16 text-white flex items-center justify-between">
                   <div className="flex items-center gap-8">
                     <div className="w-16 h-16 bg-indigo-50 rounded-[2rem] flex items-center justify-center text-white"><Icons.AI /></div>
                     <h3 className="text-4xl font-black tracking-tighter uppercase">Forensic Vault</h3>
                   </div>
+                  <button
+                    onClick={startNewInvestigation}
+                    disabled={chatThread.length === 0 || isQuickAnalyzing}
+                    className="px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-slate-800 hover:bg-indigo-600 disabled:opacity-30 disabled:hover:bg-slate-800 transition-all"
+                  >
+                    + New Investigation
+                  </button>
                 </div>
                 <div className="flex-1 flex overflow-hidden">
                   <div className="w-96 bg-slate-50 border-r border-slate-200 p-12 space-y-10 flex flex-col overflow-y-auto">
@@ -979,15 +1761,15 @@ const App: React.FC = () => {
                   </div>
                   <div className="flex-1 flex flex-col bg-white">
                     <div ref={scrollRef} className="flex-1 p-16 overflow-y-auto bg-white custom-scrollbar">
-                       {quickAiText ? (
-                         <div className="prose prose-indigo max-w-none font-medium text-slate-700 whitespace-pre-wrap leading-relaxed animate-in fade-in slide-in-from-bottom-6">
-                           {quickAiText}
-                         </div>
+                       {openAnalysisIds.length > 0 ? (
+                         <AIAnalysisView entries={openAnalysisIds.map(id => aiHistory.find(e => e.id === id)).filter((e): e is AIAnalysisEntry => !!e)} onClose={() => setOpenAnalysisIds([])} />
+                       ) : chatThread.length > 0 ? (
+                         <ForensicThread turns={chatThread} isStreaming={isQuickAnalyzing} />
                        ) : <div className="h-full flex flex-col items-center justify-center text-slate-300 opacity-40 uppercase font-black text-center px-12 leading-relaxed">Scope the Forensic Logic.</div>}
                     </div>
                     <div className="p-16 bg-slate-50/50 border-t border-slate-200">
                       <div className="relative group max-w-4xl mx-auto">
-                        <input type="text" value={aiUserPrompt} onChange={(e) => setAiUserPrompt(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleRunQuickAI()} placeholder="Ask about variances..." className="w-full bg-white border-4 border-slate-200 rounded-[3rem] px-14 py-8 text-base font-bold outline-none pr-32 shadow-2xl" />
+                        <input type="text" value={aiUserPrompt} onChange={(e) => setAiUserPrompt(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleRunQuickAI()} placeholder={chatThread.length > 0 ? 'Ask a follow-up...' : 'Ask about variances...'} className="w-full bg-white border-4 border-slate-200 rounded-[3rem] px-14 py-8 text-base font-bold outline-none pr-32 shadow-2xl" />
                         <button onClick={() => handleRunQuickAI()} disabled={!aiUserPrompt.trim() && !isQuickAnalyzing} className="absolute right-6 top-6 w-16 h-16 bg-indigo-600 text-white rounded-[1.5rem] flex items-center justify-center shadow-xl shadow-indigo-200 transition-all">
                           {isQuickAnalyzing && activeChip === 'custom' ? (
                             <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
@@ -998,6 +1780,14 @@ const App: React.FC = () => {
                       </div>
                     </div>
                   </div>
+                  <AIHistoryPanel
+                    entries={aiHistory}
+                    openIds={openAnalysisIds}
+                    onOpen={(id) => setOpenAnalysisIds([id])}
+                    onCompare={compareAnalysis}
+                    onTogglePin={(id) => setAiHistory(prev => toggleAnalysisPin(prev, id))}
+                    onDelete={deleteAnalysis}
+                  />
                 </div>
               </div>
             </div>
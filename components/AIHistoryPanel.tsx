@@ -0,0 +1,103 @@
+import React from 'react';
+import { AIAnalysisEntry } from '../types';
+import { describeFilters } from '../services/aiHistoryService';
+
+interface HistoryPanelProps {
+  entries: AIAnalysisEntry[];
+  openIds: string[];
+  onOpen: (id: string) => void;
+  onCompare: (id: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const kindBadge = (entry: AIAnalysisEntry) => (
+  <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest ${entry.kind === 'deep' ? 'bg-emerald-50 text-emerald-600' : 'bg-indigo-50 text-indigo-600'}`}>
+    {entry.kind === 'deep' ? 'Deep Dive' : 'Quick'}
+  </span>
+);
+
+export const AIHistoryPanel: React.FC<HistoryPanelProps> = ({ entries, openIds, onOpen, onCompare, onTogglePin, onDelete }) => {
+  const sorted = [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt.localeCompare(a.createdAt));
+
+  return (
+    <div className="w-80 bg-slate-50 border-l border-slate-200 p-8 flex flex-col overflow-y-auto custom-scrollbar">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Analysis History</p>
+      <p className="text-[10px] font-bold text-slate-300 uppercase tracking-widest mb-6">Open one, or ⇄ a second to compare</p>
+      {sorted.length === 0 ? (
+        <p className="text-slate-300 font-black uppercase tracking-widest text-center py-10 text-xs">No saved analyses yet</p>
+      ) : (
+        <div className="space-y-3">
+          {sorted.map(entry => {
+            const isOpen = openIds.includes(entry.id);
+            return (
+              <div
+                key={entry.id}
+                onClick={() => onOpen(entry.id)}
+                className={`p-4 rounded-2xl border cursor-pointer transition-all ${isOpen ? 'bg-white border-indigo-400 shadow-md' : 'bg-white border-slate-200 hover:border-indigo-300'}`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  {kindBadge(entry)}
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onCompare(entry.id); }}
+                      title={isOpen ? 'Remove from view' : 'Compare side by side'}
+                      className={`w-6 h-6 rounded-md text-xs font-black transition-all ${isOpen && openIds.length > 1 ? 'bg-indigo-600 text-white' : 'text-slate-300 hover:text-indigo-600'}`}
+                    >
+                      ⇄
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onTogglePin(entry.id); }}
+                      title={entry.pinned ? 'Unpin' : 'Pin (kept regardless of history size)'}
+                      className={`w-6 h-6 rounded-md text-xs transition-all ${entry.pinned ? 'text-amber-500' : 'text-slate-300 hover:text-amber-500'}`}
+                    >
+                      {entry.pinned ? '★' : '☆'}
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onDelete(entry.id); }}
+                      title="Delete"
+                      className="w-6 h-6 rounded-md text-xs font-black text-slate-300 hover:text-red-500 transition-all"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+                <p className="text-[11px] font-bold text-slate-800 leading-snug line-clamp-2">{entry.question}</p>
+                <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider mt-2 truncate" title={describeFilters(entry.filters)}>{describeFilters(entry.filters)}</p>
+                <p className="text-[9px] font-bold text-slate-300 uppercase tracking-wider mt-1">{new Date(entry.createdAt).toLocaleString()}{entry.model ? ` · ${entry.model}` : ''}</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** One reopened analysis, or two side by side when comparing. */
+export const AIAnalysisView: React.FC<{ entries: AIAnalysisEntry[]; onClose: () => void }> = ({ entries, onClose }) => (
+  <div className="animate-in fade-in slide-in-from-bottom-6">
+    <div className="flex justify-end mb-6">
+      <button onClick={onClose} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">
+        Back to Investigation
+      </button>
+    </div>
+    <div className={`grid gap-10 ${entries.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+      {entries.map(entry => (
+        <div key={entry.id} className="min-w-0">
+          <header className="mb-6 pb-6 border-b border-slate-100">
+            <div className="flex items-center gap-3 mb-2">
+              {kindBadge(entry)}
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{new Date(entry.createdAt).toLocaleString()}{entry.model ? ` · ${entry.model}` : ''}</span>
+            </div>
+            <p className="text-lg font-black text-slate-900 tracking-tight">{entry.question}</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">{describeFilters(entry.filters)}</p>
+          </header>
+          <div className="prose prose-indigo max-w-none font-medium text-slate-700 whitespace-pre-wrap leading-relaxed">
+            {entry.response}
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
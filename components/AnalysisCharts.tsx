@@ -1,208 +1,147 @@
 import React from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  Legend, Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, LineChart, Line
+  Legend, Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ComposedChart, Line, Area, Cell, ReferenceLine
 } from 'recharts';
-import { ShrinkRecord } from '../types';
+import { DrilldownDimension, ForecastPoint, ShrinkRecord } from '../types';
+import { formatPeriodLabel } from '../services/periodService';
+import { UNCATEGORIZED } from '../services/categoryService';
+import { SegmentClassifier } from '../services/segmentService';
+import { MAX_FORECAST_HORIZON, MIN_FORECAST_PERIODS } from '../services/forecastService';
+import { buildTrendSeries, buildVarianceImpact, buildItemLeaderboards, buildForensicRadar } from '../services/forensicChartService';
 
 interface ChartsProps {
   data: ShrinkRecord[];
   allRecords: ShrinkRecord[];
-  onItemAnalysis: (item: string, type: 'shrink' | 'overage') => void;
+  onItemAnalysis: (item: string, type: 'shrink' | 'overage', dimension?: DrilldownDimension) => void;
+  onEditCategories: () => void;
+  classifySegment: SegmentClassifier;
+  phantomShrinkById: Record<string, number>;
+  shrinkForecast: ForecastPoint[];
+  forecastHorizon: number;
+  onForecastHorizonChange: (horizon: number) => void;
 }
 
-const MONTH_ORDER = [
-  'January', 'February', 'March', 'April', 'May', 'June',
-  'July', 'August', 'September', 'October', 'November', 'December'
-];
+const PARETO_CUTOFF = 80;
+// Past this many bars the labels become unreadable; the cumulative line still covers everything
+const PARETO_MAX_BARS = 40;
 
-// Helper to identify "Fresh" items subject to Receiving/Tablet errors
-const isColdFood = (name: string, code: string) => {
-  const coldPrefixRegex = /^(KF|F\s|B\s)/i;
-  return coldPrefixRegex.test(code) || coldPrefixRegex.test(name);
-};
+const PARETO_DIMENSIONS: { id: DrilldownDimension; label: string }[] = [
+  { id: 'item', label: 'Items' },
+  { id: 'market', label: 'Markets' },
+  { id: 'category', label: 'Categories' }
+];
 
-export const AnalysisCharts: React.FC<ChartsProps> = ({ data, allRecords, onItemAnalysis }) => {
+export const AnalysisCharts: React.FC<ChartsProps> = ({ data, allRecords, onItemAnalysis, onEditCategories, classifySegment, phantomShrinkById, shrinkForecast, forecastHorizon, onForecastHorizonChange }) => {
   // 1. Trend Analysis (Month over Month)
-  const trendData = React.useMemo(() => {
-    const periods: Record<string, { period: string; shrink: number; revenue: number; net: number }> = {};
-    data.forEach(r => {
-      if (!periods[r.period]) periods[r.period] = { period: r.period, shrink: 0, revenue: 0, net: 0 };
-      
-      periods[r.period].revenue += r.totalRevenue || 0;
-      periods[r.period].shrink += r.shrinkLoss || 0;
-      periods[r.period].net += (r.overageGain || 0) - (r.shrinkLoss || 0);
-    });
+  const trendData = React.useMemo(() => buildTrendSeries(data, phantomShrinkById), [data, phantomShrinkById]);
 
-    return Object.values(periods)
-      .sort((a, b) => MONTH_ORDER.indexOf(a.period) - MONTH_ORDER.indexOf(b.period))
-      .map(p => ({
-        ...p,
-        shrinkRate: p.revenue > 0 ? Number(((p.shrink / p.revenue) * 100).toFixed(2)) : 0
-      }));
-  }, [data]);
+  const hasPhantom = trendData.some(p => p.phantom > 0);
+
+  // Forecast continues from the last actual point so the dashed line joins the solid one
+  const trendChartData = React.useMemo(() => {
+    if (shrinkForecast.length === 0 || trendData.length === 0) return trendData;
+    const last = trendData[trendData.length - 1];
+    return [
+      ...trendData.slice(0, -1),
+      { ...last, forecastRate: last.shrinkRate, band: [last.shrinkRate, last.shrinkRate] },
+      ...shrinkForecast.map(f => ({
+        period: f.period,
+        label: formatPeriodLabel(f.period, true),
+        forecastRate: f.value,
+        band: [f.lower, f.upper]
+      }))
+    ];
+  }, [trendData, shrinkForecast]);
 
   // 2. Overage vs Shortage Impact ($)
-  const varianceImpact = React.useMemo(() => {
-    const markets: Record<string, { name: string; shortage: number; overage: number }> = {};
-    data.forEach(r => {
-      if (!markets[r.marketName]) markets[r.marketName] = { name: r.marketName, shortage: 0, overage: 0 };
-      markets[r.marketName].shortage += r.shrinkLoss || 0;
-      markets[r.marketName].overage += r.overageGain || 0;
-    });
-    return Object.values(markets).sort((a, b) => (b.shortage + b.overage) - (a.shortage + a.overage)).slice(0, 10);
-  }, [data]);
+  const varianceImpact = React.useMemo(() => buildVarianceImpact(data, phantomShrinkById), [data, phantomShrinkById]);
 
   // 3. Itemized Leaderboards
-  const itemLeaderboards = React.useMemo(() => {
-    const shrinkMap: Record<string, number> = {};
-    const overageMap: Record<string, number> = {};
+  const itemLeaderboards = React.useMemo(() => buildItemLeaderboards(data), [data]);
 
+  // 4. Category Breakdown
+  const categoryBreakdown = React.useMemo(() => {
+    const categories: Record<string, { name: string; shortage: number; overage: number; revenue: number; items: number }> = {};
     data.forEach(r => {
-      const shrinkVal = r.shrinkLoss || 0;
-      const overageVal = r.overageGain || 0;
-      
-      if (shrinkVal > 0) shrinkMap[r.itemName] = (shrinkMap[r.itemName] || 0) + shrinkVal;
-      if (overageVal > 0) overageMap[r.itemName] = (overageMap[r.itemName] || 0) + overageVal;
+      const name = r.category || UNCATEGORIZED;
+      if (!categories[name]) categories[name] = { name, shortage: 0, overage: 0, revenue: 0, items: 0 };
+      categories[name].shortage += r.shrinkLoss || 0;
+      categories[name].overage += r.overageGain || 0;
+      categories[name].revenue += r.totalRevenue || 0;
+      categories[name].items += 1;
     });
-
-    const topShrink = Object.entries(shrinkMap).sort(([, a], [, b]) => b - a).slice(0, 8).map(([name, value]) => ({ name, value }));
-    const topOverage = Object.entries(overageMap).sort(([, a], [, b]) => b - a).slice(0, 8).map(([name, value]) => ({ name, value }));
-    return { topShrink, topOverage };
+    return Object.values(categories)
+      .map(c => ({ ...c, net: c.overage - c.shortage, shrinkPct: c.revenue > 0 ? (c.shortage / c.revenue) * 100 : 0 }))
+      .sort((a, b) => b.shortage - a.shortage);
   }, [data]);
 
-  // 4. Radar Chart Data (Forensic Web)
-  const radarData = React.useMemo(() => {
-    // A. Helper to compute stats for a set of records
-    const computeMarketStats = (records: ShrinkRecord[]) => {
-      const stats: Record<string, { 
-        name: string; 
-        theftScore: number;    // Pure Shrink
-        processScore: number;  // Ambient Overage (Sloppy Counting)
-        receivingScore: number;// Cold Food Variance (Tablet Errors)
-        revImpact: number;
-        volume: number;
-        rev: number;
-      }> = {};
-
-      records.forEach(r => {
-        if (!stats[r.marketName]) {
-          stats[r.marketName] = { 
-            name: r.marketName, 
-            theftScore: 0, 
-            processScore: 0, 
-            receivingScore: 0,
-            revImpact: 0,
-            volume: 0,
-            rev: 0
-          };
-        }
-        
-        const isFresh = isColdFood(r.itemName, r.itemNumber);
-        
-        // Metric 1: Theft Risk (Total Shrink)
-        stats[r.marketName].theftScore += r.shrinkLoss || 0;
-
-        // Metric 2: Receiving Risk (Fresh Food Variance)
-        if (isFresh) {
-          stats[r.marketName].receivingScore += Math.abs(r.invVariance * (r.unitCost || 0));
-        } else {
-          // Metric 3: Process/Inventory Risk (Ambient Overage)
-          stats[r.marketName].processScore += r.overageGain || 0;
-        }
-
-        stats[r.marketName].rev += r.totalRevenue || 0;
-        stats[r.marketName].volume += 1;
-      });
+  // 5. Radar Chart Data (Forensic Web)
+  const radarData = React.useMemo(() => buildForensicRadar(data, allRecords, classifySegment), [data, allRecords, classifySegment]);
 
-      // Normalize Rev Impact
-      Object.values(stats).forEach(m => {
-        if (m.rev > 0) m.revImpact = ((m.theftScore + m.processScore + m.receivingScore) / m.rev) * 100;
-      });
-
-      return Object.values(stats);
-    };
-
-    // B. Compute Global Maxes from ALL records (for normalization context)
-    const globalStats = computeMarketStats(allRecords);
-    if (globalStats.length === 0) return { data: [], keys: [] };
-
-    const maxTheft = Math.max(...globalStats.map(m => m.theftScore)) || 1;
-    const maxProcess = Math.max(...globalStats.map(m => m.processScore)) || 1;
-    const maxReceiving = Math.max(...globalStats.map(m => m.receivingScore)) || 1;
-    const maxImpact = Math.max(...globalStats.map(m => m.revImpact)) || 1;
-    const maxVol = Math.max(...globalStats.map(m => m.volume)) || 1;
-
-    // C. Compute Stats for Current View (filtered data)
-    const currentViewStats = computeMarketStats(data);
-    
-    // Pick Top 3 from the *filtered* view to display
-    const marketsToShow = currentViewStats
-      .sort((a, b) => (b.theftScore + b.receivingScore + b.processScore) - (a.theftScore + a.receivingScore + a.processScore))
-      .slice(0, 3);
-
-    // D. Transform for Recharts Radar Format (Normalize against GLOBAL Max)
-    const axes = [
-      { subject: 'Theft Risk', fullMark: 100 },      
-      { subject: 'Inventory Process', fullMark: 100 }, 
-      { subject: 'Receiving (Fresh)', fullMark: 100 }, 
-      { subject: 'Rev Impact', fullMark: 100 },      
-      { subject: 'Error Freq', fullMark: 100 },      
-    ];
+  // 6. Pareto (shrink concentration over every filtered record)
+  const [paretoBy, setParetoBy] = React.useState<DrilldownDimension>('item');
+  const pareto = React.useMemo(() => {
+    const groups: Record<string, number> = {};
+    data.forEach(r => {
+      if (!(r.shrinkLoss > 0)) return;
+      const key = paretoBy === 'item' ? r.itemName : paretoBy === 'market' ? r.marketName : (r.category || UNCATEGORIZED);
+      groups[key] = (groups[key] || 0) + r.shrinkLoss;
+    });
 
-    const finalData = axes.map((axis, i) => {
-      const point: any = { subject: axis.subject, fullMark: 100 };
-      marketsToShow.forEach((m, idx) => {
-        let val = 0;
-        // Normalize against GLOBAL max values, so a single market doesn't look like 100% everywhere
-        if (i === 0) val = (m.theftScore / maxTheft) * 100;
-        else if (i === 1) val = (m.processScore / maxProcess) * 100;
-        else if (i === 2) val = (m.receivingScore / maxReceiving) * 100;
-        else if (i === 3) val = (m.revImpact / maxImpact) * 100;
-        else if (i === 4) val = (m.volume / maxVol) * 100;
-        
-        point[`market${idx}`] = Math.min(100, Math.max(0, val));
+    const total = Object.values(groups).reduce((s, v) => s + v, 0);
+    let running = 0;
+    const rows = Object.entries(groups)
+      .sort(([, a], [, b]) => b - a)
+      .map(([name, value]) => {
+        running += value;
+        return { name, value, cumulativePct: total > 0 ? Number(((running / total) * 100).toFixed(2)) : 0 };
       });
-      return point;
-    });
 
-    return { 
-      data: finalData, 
-      keys: marketsToShow.map((m, i) => ({ 
-        key: `market${i}`, 
-        name: m.name, 
-        color: i === 0 ? '#ef4444' : i === 1 ? '#10b981' : '#6366f1' 
-      })) 
-    };
-  }, [data, allRecords]);
+    const cutoffIndex = rows.findIndex(r => r.cumulativePct >= PARETO_CUTOFF);
+    return { rows, total, cutoffCount: cutoffIndex + 1 };
+  }, [data, paretoBy]);
 
   return (
     <div className="space-y-8 pb-12">
       {/* Row 1: Trends */}
       <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
-        <header className="mb-8 flex justify-between items-end">
+        <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
           <div>
             <h3 className="text-3xl font-black text-slate-900 tracking-tighter uppercase">Forensic Trend Analysis</h3>
             <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Extrapolating Performance Across Periods</p>
           </div>
-          <div className="flex gap-6">
+          <div className="flex flex-wrap items-center gap-6">
              <div className="flex items-center gap-2"><div className="w-3 h-3 bg-indigo-500 rounded-full" /><span className="text-[10px] font-black text-slate-500 uppercase">Shrink Rate %</span></div>
+             {hasPhantom && <div className="flex items-center gap-2"><div className="w-3 h-3 bg-sky-400 rounded-full" /><span className="text-[10px] font-black text-slate-500 uppercase">Phantom Rate %</span></div>}
              <div className="flex items-center gap-2"><div className="w-3 h-3 bg-slate-200 rounded-full" /><span className="text-[10px] font-black text-slate-500 uppercase">Net Variance ($)</span></div>
+             {shrinkForecast.length > 0 && <div className="flex items-center gap-2"><div className="w-5 border-t-2 border-dashed border-indigo-400" /><span className="text-[10px] font-black text-slate-500 uppercase">Forecast · 95% Band</span></div>}
+             <div className="flex bg-slate-100 p-1 rounded-xl" title={`Forecast needs ${MIN_FORECAST_PERIODS}+ periods in the selection`}>
+               {Array.from({ length: MAX_FORECAST_HORIZON + 1 }, (_, h) => (
+                 <button key={h} onClick={() => onForecastHorizonChange(h)} className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase transition-all ${forecastHorizon === h ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>
+                   {h === 0 ? 'Off' : `+${h}`}
+                 </button>
+               ))}
+             </div>
           </div>
         </header>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={trendData}>
+            <ComposedChart data={trendChartData}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-              <XAxis dataKey="period" fontSize={10} axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontWeight: 800}} />
+              <XAxis dataKey="label" fontSize={10} axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontWeight: 800}} />
               <YAxis yAxisId="left" fontSize={10} axisLine={false} tickLine={false} tick={{fill: '#94a3b8'}} tickFormatter={(v) => `${v}%`} />
               <YAxis yAxisId="right" orientation="right" fontSize={10} axisLine={false} tickLine={false} tick={{fill: '#94a3b8'}} tickFormatter={(v) => `$${v}`} />
               <Tooltip 
                 contentStyle={{borderRadius: '2rem', border: 'none', boxShadow: '0 25px 50px -12px rgb(0 0 0 / 0.15)', padding: '20px'}}
+                formatter={(value: any, name: any) => [Array.isArray(value) ? `${value[0]}% – ${value[1]}%` : value, name]}
               />
+              <Area yAxisId="left" type="monotone" dataKey="band" name="95% Band" stroke="none" fill="#6366f1" fillOpacity={0.08} />
+              <Line yAxisId="left" type="monotone" dataKey="forecastRate" name="Forecast %" stroke="#818cf8" strokeWidth={3} strokeDasharray="8 6" dot={{ r: 4, fill: '#fff', stroke: '#818cf8', strokeWidth: 2 }} />
               <Line yAxisId="left" type="monotone" dataKey="shrinkRate" stroke="#6366f1" strokeWidth={4} dot={{ r: 6, fill: '#6366f1', strokeWidth: 0 }} activeDot={{ r: 8, strokeWidth: 0 }} />
+              {hasPhantom && <Line yAxisId="left" type="monotone" dataKey="phantomRate" stroke="#38bdf8" strokeWidth={3} strokeDasharray="6 4" dot={{ r: 4, fill: '#38bdf8', strokeWidth: 0 }} />}
               <Line yAxisId="right" type="monotone" dataKey="net" stroke="#e2e8f0" strokeWidth={2} strokeDasharray="5 5" dot={false} />
-            </LineChart>
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
       </div>
@@ -249,6 +188,7 @@ export const AnalysisCharts: React.FC<ChartsProps> = ({ data, allRecords, onItem
             </div>
             <div className="flex gap-4">
               <div className="flex items-center gap-2"><div className="w-3 h-3 bg-red-400 rounded-full" /><span className="text-[10px] font-bold text-slate-500 uppercase">Shortage</span></div>
+              {hasPhantom && <div className="flex items-center gap-2"><div className="w-3 h-3 bg-sky-300 rounded-full" /><span className="text-[10px] font-bold text-slate-500 uppercase">Phantom</span></div>}
               <div className="flex items-center gap-2"><div className="w-3 h-3 bg-emerald-400 rounded-full" /><span className="text-[10px] font-bold text-slate-500 uppercase">Overage</span></div>
             </div>
           </header>
@@ -263,7 +203,8 @@ export const AnalysisCharts: React.FC<ChartsProps> = ({ data, allRecords, onItem
                   contentStyle={{borderRadius: '1.5rem', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)'}}
                   formatter={(value: number) => [`$${value.toFixed(2)}`, '']}
                 />
-                <Bar dataKey="shortage" fill="#f87171" radius={[0, 4, 4, 0]} barSize={12} />
+                <Bar dataKey="shortage" stackId="loss" fill="#f87171" barSize={12} />
+                <Bar dataKey="phantom" stackId="loss" fill="#7dd3fc" radius={[0, 4, 4, 0]} barSize={12} />
                 <Bar dataKey="overage" fill="#34d399" radius={[0, 4, 4, 0]} barSize={12} />
               </BarChart>
             </ResponsiveContainer>
@@ -337,6 +278,104 @@ export const AnalysisCharts: React.FC<ChartsProps> = ({ data, allRecords, onItem
           </div>
         </div>
       </div>
+
+      {/* Row 4: Category Breakdown */}
+      <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+        <header className="mb-8 flex justify-between items-end">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">Category Breakdown</h3>
+            <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Shortage vs. Overage by Product Category</p>
+          </div>
+          <button onClick={onEditCategories} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Edit Overrides</button>
+        </header>
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+          <div className="min-h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={categoryBreakdown} margin={{ left: 20 }} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+                <XAxis type="number" hide />
+                <YAxis dataKey="name" type="category" width={100} fontSize={10} axisLine={false} tickLine={false} tick={{fill: '#64748b', fontWeight: 700}} />
+                <Tooltip
+                  cursor={{fill: '#f8fafc'}}
+                  contentStyle={{borderRadius: '1.5rem', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)'}}
+                  formatter={(value: number) => [`$${value.toFixed(2)}`, '']}
+                />
+                <Bar dataKey="shortage" fill="#f87171" radius={[0, 4, 4, 0]} barSize={12} />
+                <Bar dataKey="overage" fill="#34d399" radius={[0, 4, 4, 0]} barSize={12} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <table className="w-full text-left border-collapse self-start">
+            <thead>
+              <tr className="border-b border-slate-100">
+                <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Category</th>
+                <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Rows</th>
+                <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Shrink %</th>
+                <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Net $</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categoryBreakdown.map(c => (
+                <tr key={c.name} className="border-b border-slate-50">
+                  <td className="py-3 text-xs font-black text-slate-700 uppercase tracking-tight">{c.name}</td>
+                  <td className="py-3 text-xs font-mono font-bold text-slate-500 text-right">{c.items}</td>
+                  <td className="py-3 text-xs font-mono font-bold text-slate-700 text-right">{c.shrinkPct.toFixed(2)}%</td>
+                  <td className={`py-3 text-xs font-mono font-black text-right ${c.net < 0 ? 'text-red-500' : 'text-emerald-500'}`}>{c.net < 0 ? '-' : '+'}${Math.abs(c.net).toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Row 5: Pareto */}
+      <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+        <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">Shrink Concentration (Pareto)</h3>
+            <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">
+              {pareto.rows.length > 0
+                ? `${pareto.cutoffCount} of ${pareto.rows.length} ${PARETO_DIMENSIONS.find(d => d.id === paretoBy)!.label} (${((pareto.cutoffCount / pareto.rows.length) * 100).toFixed(0)}%) drive ${PARETO_CUTOFF}% of $${pareto.total.toLocaleString(undefined, { maximumFractionDigits: 0 })} shrink`
+                : 'No shrink in the current filters'}
+            </p>
+          </div>
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {PARETO_DIMENSIONS.map(d => (
+              <button key={d.id} onClick={() => setParetoBy(d.id)} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${paretoBy === d.id ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>
+                {d.label}
+              </button>
+            ))}
+          </div>
+        </header>
+        <div className="h-[400px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={pareto.rows.slice(0, PARETO_MAX_BARS)} margin={{ bottom: 40 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" interval={0} angle={-35} textAnchor="end" height={70} fontSize={9} axisLine={false} tickLine={false} tick={{fill: '#64748b', fontWeight: 700}} tickFormatter={(v: string) => v.length > 16 ? `${v.slice(0, 15)}…` : v} />
+              <YAxis yAxisId="left" fontSize={10} axisLine={false} tickLine={false} tick={{fill: '#94a3b8'}} tickFormatter={(v) => `$${v}`} />
+              <YAxis yAxisId="right" orientation="right" domain={[0, 100]} fontSize={10} axisLine={false} tickLine={false} tick={{fill: '#94a3b8'}} tickFormatter={(v) => `${v}%`} />
+              <Tooltip
+                cursor={{fill: '#f8fafc'}}
+                contentStyle={{borderRadius: '1.5rem', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)'}}
+                formatter={(value: any, name: any) => name === 'Cumulative' ? [`${value}%`, name] : [`$${Number(value).toFixed(2)}`, name]}
+              />
+              <Bar yAxisId="left" dataKey="value" name="Shrink" radius={[4, 4, 0, 0]} cursor="pointer" onClick={(entry: any) => onItemAnalysis(entry.payload?.name ?? entry.name, 'shrink', paretoBy)}>
+                {pareto.rows.slice(0, PARETO_MAX_BARS).map((row, idx) => (
+                  <Cell key={row.name} fill={idx < pareto.cutoffCount ? '#f87171' : '#cbd5e1'} />
+                ))}
+              </Bar>
+              <Line yAxisId="right" type="monotone" dataKey="cumulativePct" name="Cumulative" stroke="#6366f1" strokeWidth={3} dot={false} />
+              <ReferenceLine yAxisId="right" y={PARETO_CUTOFF} stroke="#6366f1" strokeDasharray="5 5" label={{ value: `${PARETO_CUTOFF}%`, position: 'insideTopRight', fill: '#6366f1', fontSize: 10, fontWeight: 800 }} />
+              {pareto.cutoffCount > 0 && pareto.cutoffCount <= PARETO_MAX_BARS && (
+                <ReferenceLine yAxisId="left" x={pareto.rows[pareto.cutoffCount - 1].name} stroke="#f87171" strokeDasharray="5 5" />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        {pareto.rows.length > PARETO_MAX_BARS && (
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-4">Showing the top {PARETO_MAX_BARS} of {pareto.rows.length}; the cumulative line covers all of them.</p>
+        )}
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,102 @@
+import React from 'react';
+import { AnomalyMethod, AnomalyScope, VarianceAnomaly } from '../types';
+import { formatPeriodLabel } from '../services/periodService';
+import { ANOMALY_METHOD_LABELS, ANOMALY_THRESHOLDS, MIN_HISTORY_PERIODS } from '../services/anomalyService';
+
+interface AnomalyPanelProps {
+  anomalies: VarianceAnomaly[];
+  method: AnomalyMethod;
+  onMethodChange: (method: AnomalyMethod) => void;
+  onItemAnalysis: (item: string, type: 'shrink' | 'overage') => void;
+}
+
+const VISIBLE_ANOMALIES = 12;
+
+const money = (v: number) => `${v < 0 ? '-' : '+'}$${Math.abs(v).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+export const AnomalyPanel: React.FC<AnomalyPanelProps> = ({ anomalies, method, onMethodChange, onItemAnalysis }) => {
+  const [scope, setScope] = React.useState<AnomalyScope>('item');
+  const [showAll, setShowAll] = React.useState(false);
+
+  const scoped = anomalies.filter(a => a.scope === scope);
+  const visible = showAll ? scoped : scoped.slice(0, VISIBLE_ANOMALIES);
+  const shrinkBreaks = scoped.filter(a => a.score < 0).length;
+
+  return (
+    <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm mb-8">
+      <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h3 className="text-2xl font-black text-slate-900 tracking-tight">Variance Anomalies</h3>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">
+            Breaks from Each {scope === 'item' ? 'Item' : 'Market'}'s Own History · |Score| ≥ {ANOMALY_THRESHOLDS[method]}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-3 items-center">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {(['item', 'market'] as AnomalyScope[]).map(s => (
+              <button key={s} onClick={() => setScope(s)} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${scope === s ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>
+                {s === 'item' ? 'Items' : 'Markets'} ({anomalies.filter(a => a.scope === s).length})
+              </button>
+            ))}
+          </div>
+          <select
+            value={method}
+            onChange={(e) => onMethodChange(e.target.value as AnomalyMethod)}
+            className="bg-white border border-slate-200 text-slate-700 text-[10px] font-black py-3 px-4 rounded-xl outline-none focus:border-indigo-500 uppercase tracking-widest"
+          >
+            {(Object.keys(ANOMALY_METHOD_LABELS) as AnomalyMethod[]).map(m => <option key={m} value={m}>{ANOMALY_METHOD_LABELS[m]}</option>)}
+          </select>
+        </div>
+      </header>
+
+      {scoped.length === 0 ? (
+        <p className="text-slate-300 font-black uppercase tracking-widest text-center py-6 text-xs">
+          No anomalies in the current filters · Needs {MIN_HISTORY_PERIODS}+ earlier periods per market
+        </p>
+      ) : (
+        <>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">
+            <span className="text-red-500">{shrinkBreaks} toward shrink</span> · <span className="text-emerald-500">{scoped.length - shrinkBreaks} toward overage</span>
+          </p>
+          <div className="space-y-3">
+            {visible.map((a, idx) => (
+              <div
+                key={idx}
+                onClick={() => scope === 'item' && onItemAnalysis(a.itemName, a.score < 0 ? 'shrink' : 'overage')}
+                className={`grid grid-cols-12 items-center gap-4 p-4 rounded-2xl border border-slate-100 hover:bg-slate-50 transition-all ${scope === 'item' ? 'cursor-pointer' : ''}`}
+              >
+                <div className="col-span-12 md:col-span-4 min-w-0">
+                  <div className="text-xs font-black text-slate-700 truncate">{a.itemName}</div>
+                  <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate">
+                    {scope === 'item' && <>{a.marketName} · </>}{formatPeriodLabel(a.period, true)}
+                  </div>
+                </div>
+                <div className="col-span-4 md:col-span-2 text-right">
+                  <div className="text-[10px] font-black text-slate-400 uppercase">This Period</div>
+                  <div className={`text-xs font-mono font-black ${a.value < 0 ? 'text-red-500' : 'text-emerald-500'}`}>{money(a.value)}</div>
+                </div>
+                <div className="col-span-4 md:col-span-2 text-right">
+                  <div className="text-[10px] font-black text-slate-400 uppercase">Baseline</div>
+                  <div className="text-xs font-mono font-bold text-slate-500">{money(a.baseline)}</div>
+                </div>
+                <div className="col-span-4 md:col-span-2 text-right">
+                  <div className="text-[10px] font-black text-slate-400 uppercase">History</div>
+                  <div className="text-xs font-mono font-bold text-slate-500">{a.historyPeriods} pds</div>
+                </div>
+                <div className="col-span-12 md:col-span-2 text-right">
+                  <div className="text-[10px] font-black text-slate-400 uppercase">Score</div>
+                  <div className={`text-sm font-black ${a.score < 0 ? 'text-red-500' : 'text-emerald-500'}`}>{a.score > 0 ? '+' : ''}{a.score.toFixed(1)}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+          {scoped.length > VISIBLE_ANOMALIES && (
+            <button onClick={() => setShowAll(v => !v)} className="mt-4 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+              {showAll ? 'Show Fewer' : `Show All ${scoped.length} Anomalies`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend, Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, LineChart, Line
+} from 'recharts';
+import { ShrinkRecord, ViewFilters, ForensicStats } from '../types';
+import { Icons } from '../constants';
+import { buildTrendSeries, buildVarianceImpact, buildItemLeaderboards, buildForensicRadar } from '../services/forensicChartService';
+import { formatPeriodLabel } from '../services/periodService';
+import { SegmentClassifier } from '../services/segmentService';
+
+interface AuditReportProps {
+  records: ShrinkRecord[];
+  allRecords: ShrinkRecord[];
+  stats: ForensicStats;
+  filters: ViewFilters;
+  phantomShrinkById: Record<string, number>;
+  classifySegment: SegmentClassifier;
+  diagnostic: string;
+  onClose: () => void;
+}
+
+// Fixed sizes: ResponsiveContainer measures the screen, not the printed page
+const PAGE_WIDTH = 700;
+const HALF_WIDTH = 340;
+const LEADERBOARD_SIZE = 10;
+
+const money = (v: number) => `$${Math.abs(v).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+// Bold spans only; the diagnostic prompt doesn't ask for anything richer inline
+const renderInline = (text: string) => text.split(/(\*\*[^*]+\*\*)/g).map((part, idx) =>
+  part.startsWith('**') && part.endsWith('**') ? <strong key={idx} className="font-black text-slate-900">{part.slice(2, -2)}</strong> : part
+);
+
+/** Minimal markdown for the AI diagnostic: headings, bullet and numbered lists, bold. */
+const renderMarkdown = (markdown: string) => markdown.split('\n').map((raw, idx) => {
+  const line = raw.trim();
+  if (!line) return <div key={idx} className="h-3" />;
+  const heading = line.match(/^(#{1,4})\s+(.*)$/);
+  if (heading) {
+    const size = heading[1].length <= 2 ? 'text-lg' : 'text-sm';
+    return <p key={idx} className={`${size} font-black text-slate-900 tracking-tight mt-4 mb-1`}>{renderInline(heading[2])}</p>;
+  }
+  const bullet = line.match(/^[-*•]\s+(.*)$/);
+  if (bullet) return <p key={idx} className="pl-5 -indent-3">• {renderInline(bullet[1])}</p>;
+  const numbered = line.match(/^(\d+)[.)]\s+(.*)$/);
+  if (numbered) return <p key={idx} className="pl-5 -indent-4">{numbered[1]}. {renderInline(numbered[2])}</p>;
+  return <p key={idx}>{renderInline(line)}</p>;
+});
+
+export const AuditReport: React.FC<AuditReportProps> = ({ records, allRecords, stats, filters, phantomShrinkById, classifySegment, diagnostic, onClose }) => {
+  const trendData = React.useMemo(() => buildTrendSeries(records, phantomShrinkById), [records, phantomShrinkById]);
+  const varianceImpact = React.useMemo(() => buildVarianceImpact(records, phantomShrinkById), [records, phantomShrinkById]);
+  const leaderboards = React.useMemo(() => buildItemLeaderboards(records, LEADERBOARD_SIZE), [records]);
+  const radarData = React.useMemo(() => buildForensicRadar(records, allRecords, classifySegment), [records, allRecords, classifySegment]);
+
+  const [generatedAt] = React.useState(() => new Date());
+  const periodLabel = filters.periods.length ? filters.periods.map(p => formatPeriodLabel(p)).join(', ') : 'All Periods';
+
+  // The browser suggests the document title as the PDF file name
+  React.useEffect(() => {
+    const previous = document.title;
+    document.title = `Shrink Audit Report ${generatedAt.toISOString().slice(0, 10)}`;
+    return () => { document.title = previous; };
+  }, []);
+
+  const kpis = [
+    { label: 'Gross Shrink', value: `-${money(stats.totalShrink)}`, note: `${stats.shrinkPct.toFixed(2)}% of Rev`, tone: 'text-red-500' },
+    { label: 'Gross Overage', value: `+${money(stats.totalOverage)}`, note: `${stats.overagePct.toFixed(2)}% of Rev`, tone: 'text-emerald-500' },
+    { label: 'Net Variance', value: `${stats.netVariance >= 0 ? '+' : '-'}${money(stats.netVariance)}`, note: `${stats.netPct.toFixed(2)}% of Rev`, tone: stats.netVariance >= 0 ? 'text-indigo-600' : 'text-red-600' },
+    { label: 'Integrity', value: `${stats.accuracy}%`, note: `${stats.count.toLocaleString()} Records`, tone: 'text-slate-900' }
+  ];
+
+  const leaderboard = (title: string, entries: { name: string; value: number }[], sign: string, tone: string) => (
+    <div className="break-inside-avoid">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">{title}</p>
+      {entries.length === 0 ? (
+        <p className="text-xs font-bold text-slate-300 uppercase tracking-widest">None in this view</p>
+      ) : (
+        <table className="w-full text-left border-collapse">
+          <tbody>
+            {entries.map((e, idx) => (
+              <tr key={e.name} className="border-b border-slate-100">
+                <td className="py-1.5 pr-2 text-[10px] font-black text-slate-300 w-6">{idx + 1}</td>
+                <td className="py-1.5 pr-2 text-[11px] font-bold text-slate-700 uppercase tracking-tight">{e.name}</td>
+                <td className={`py-1.5 text-[11px] font-mono font-black text-right ${tone}`}>{sign}{money(e.value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-100 print:bg-white">
+      <div className="sticky top-0 z-10 bg-slate-900 text-white px-8 py-4 flex items-center justify-between print:hidden">
+        <span className="text-xs font-black uppercase tracking-widest">Audit Report Preview · Use "Save as PDF" in the print dialog</span>
+        <div className="flex gap-3">
+          <button onClick={() => window.print()} className="flex items-center gap-2 px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-indigo-600 hover:bg-indigo-500 transition-all">
+            <Icons.Report /> Print / Save PDF
+          </button>
+          <button onClick={onClose} className="px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800 hover:bg-slate-700 transition-all">Close</button>
+        </div>
+      </div>
+
+      <div className="max-w-[780px] mx-auto my-10 bg-white p-10 shadow-xl print:shadow-none print:my-0 print:p-0 space-y-10">
+        {/* Header */}
+        <header className="border-b-4 border-slate-900 pb-6">
+          <h1 className="text-3xl font-black text-slate-900 tracking-tighter uppercase">Inventory Audit Report</h1>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">The Shrink Shrink · Generated {generatedAt.toLocaleString()}</p>
+          <div className="grid grid-cols-2 gap-x-8 gap-y-2 mt-6">
+            {[['Market', filters.market], ['Periods', periodLabel], ['Segment', filters.segment], ['Category', filters.category]].map(([label, value]) => (
+              <p key={label} className="text-xs">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-2">{label}</span>
+                <span className="font-bold text-slate-800">{value}</span>
+              </p>
+            ))}
+          </div>
+        </header>
+
+        {/* KPIs */}
+        <section className="grid grid-cols-4 gap-4 break-inside-avoid">
+          {kpis.map(k => (
+            <div key={k.label} className="p-4 rounded-2xl border border-slate-200">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{k.label}</p>
+              <p className={`text-xl font-black tracking-tighter ${k.tone}`}>{k.value}</p>
+              <p className="text-[10px] font-bold text-slate-400 mt-1">{k.note}</p>
+            </div>
+          ))}
+          {stats.phantomShrink > 0 && (
+            <p className="col-span-4 text-[10px] font-black uppercase tracking-widest">
+              <span className="text-red-500">Real Loss {money(stats.realShrink)}</span>
+              <span className="text-slate-300"> · </span>
+              <span className="text-sky-500">Phantom (Depot Freezer) {money(stats.phantomShrink)}</span>
+            </p>
+          )}
+        </section>
+
+        {/* Trend */}
+        <section className="break-inside-avoid">
+          <h2 className="text-lg font-black text-slate-900 tracking-tight uppercase">Forensic Trend</h2>
+          <p className="text-slate-400 text-[10px] font-bold uppercase tracking-widest mb-4">Shrink Rate % by Period</p>
+          <LineChart width={PAGE_WIDTH} height={240} data={trendData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="label" fontSize={10} axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontWeight: 800}} />
+            <YAxis fontSize={10} axisLine={false} tickLine={false} tick={{fill: '#94a3b8'}} tickFormatter={(v) => `${v}%`} />
+            <Line isAnimationActive={false} type="monotone" dataKey="shrinkRate" name="Shrink Rate %" stroke="#6366f1" strokeWidth={3} dot={{ r: 4, fill: '#6366f1', strokeWidth: 0 }} />
+            {trendData.some(p => p.phantom > 0) && <Line isAnimationActive={false} type="monotone" dataKey="phantomRate" name="Phantom Rate %" stroke="#38bdf8" strokeWidth={2} strokeDasharray="6 4" dot={false} />}
+            <Legend iconType="circle" wrapperStyle={{ fontSize: '10px', fontWeight: 800, textTransform: 'uppercase' }} />
+          </LineChart>
+        </section>
+
+        {/* Radar & Variance */}
+        <section className="grid grid-cols-2 gap-5 break-inside-avoid">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 tracking-tight uppercase">Forensic Web</h2>
+            <p className="text-slate-400 text-[10px] font-bold uppercase tracking-widest mb-4">Top 3 Markets · Operational Diagnosis</p>
+            <RadarChart width={HALF_WIDTH} height={280} cx="50%" cy="45%" outerRadius="65%" data={radarData.data}>
+              <PolarGrid stroke="#e2e8f0" />
+              <PolarAngleAxis dataKey="subject" tick={{ fill: '#64748b', fontSize: 9, fontWeight: 800 }} />
+              <PolarRadiusAxis angle={30} domain={[0, 100]} tick={false} axisLine={false} />
+              {radarData.keys.map(k => (
+                <Radar key={k.key} isAnimationActive={false} name={k.name} dataKey={k.key} stroke={k.color} strokeWidth={2} fill={k.color} fillOpacity={0.1} />
+              ))}
+              <Legend iconType="circle" wrapperStyle={{ fontSize: '9px', fontWeight: 800, textTransform: 'uppercase' }} />
+            </RadarChart>
+          </div>
+          <div>
+            <h2 className="text-lg font-black text-slate-900 tracking-tight uppercase">Variance Balance</h2>
+            <p className="text-slate-400 text-[10px] font-bold uppercase tracking-widest mb-4">Shortage vs. Overage ($) · Top 10 Markets</p>
+            <BarChart width={HALF_WIDTH} height={280} data={varianceImpact} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+              <XAxis type="number" hide />
+              <YAxis dataKey="name" type="category" width={90} fontSize={9} axisLine={false} tickLine={false} tick={{fill: '#64748b', fontWeight: 700}} />
+              <Bar isAnimationActive={false} dataKey="shortage" name="Shortage" stackId="loss" fill="#f87171" barSize={10} />
+              <Bar isAnimationActive={false} dataKey="phantom" name="Phantom" stackId="loss" fill="#7dd3fc" barSize={10} />
+              <Bar isAnimationActive={false} dataKey="overage" name="Overage" fill="#34d399" barSize={10} />
+              <Legend iconType="circle" wrapperStyle={{ fontSize: '9px', fontWeight: 800, textTransform: 'uppercase' }} />
+            </BarChart>
+          </div>
+        </section>
+
+        {/* Leaderboards */}
+        <section className="grid grid-cols-2 gap-8">
+          {leaderboard('Top Shrink Drivers', leaderboards.topShrink, '-', 'text-red-500')}
+          {leaderboard('Top Overage Drivers', leaderboards.topOverage, '+', 'text-emerald-500')}
+        </section>
+
+        {/* AI Diagnostic */}
+        <section className="border-t-2 border-slate-100 pt-8 print:break-before-page">
+          <h2 className="text-lg font-black text-slate-900 tracking-tight uppercase">AI Forensic Diagnostic</h2>
+          <p className="text-slate-400 text-[10px] font-bold uppercase tracking-widest mb-4">Deep Dive</p>
+          {diagnostic ? (
+            <div className="text-xs font-medium text-slate-700 leading-relaxed space-y-1">{renderMarkdown(diagnostic)}</div>
+          ) : (
+            <p className="text-xs font-bold text-slate-300 uppercase tracking-widest">No deep dive has been run for this view. Run one from AI Diagnosis to include it here.</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
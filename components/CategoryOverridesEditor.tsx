@@ -0,0 +1,140 @@
+import React from 'react';
+import { ShrinkRecord } from '../types';
+import { CATEGORIES } from '../constants';
+import { UNCATEGORIZED, categoryOverrideKey } from '../services/categoryService';
+
+interface OverridesEditorProps {
+  records: ShrinkRecord[];
+  overrides: Record<string, string>;
+  onChange: (overrides: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+const UNCATEGORIZED_LIMIT = 30;
+
+interface ItemSummary {
+  key: string;
+  itemNumber: string;
+  itemName: string;
+  category: string;
+  impact: number;
+}
+
+export const CategoryOverridesEditor: React.FC<OverridesEditorProps> = ({ records, overrides, onChange, onClose }) => {
+  const [query, setQuery] = React.useState('');
+  const [newCategory, setNewCategory] = React.useState(CATEGORIES[0]);
+
+  // One entry per item across the ledger, carrying its current category and total $ impact
+  const items: Record<string, ItemSummary> = React.useMemo(() => {
+    const map: Record<string, ItemSummary> = {};
+    records.forEach(r => {
+      const key = categoryOverrideKey(r.itemNumber, r.itemName);
+      if (!key) return;
+      const impact = Math.abs(r.netVarianceValue || 0);
+      if (map[key]) map[key].impact += impact;
+      else map[key] = { key, itemNumber: r.itemNumber, itemName: r.itemName, category: r.category || UNCATEGORIZED, impact };
+    });
+    return map;
+  }, [records]);
+
+  const uncategorized = React.useMemo(() => {
+    return Object.values(items)
+      .filter(i => i.category === UNCATEGORIZED && !overrides[i.key])
+      .sort((a, b) => b.impact - a.impact)
+      .slice(0, UNCATEGORIZED_LIMIT);
+  }, [items, overrides]);
+
+  const setOverride = (key: string, category: string) => onChange({ ...overrides, [key]: category });
+
+  const removeOverride = (key: string) => {
+    const next = { ...overrides };
+    delete next[key];
+    onChange(next);
+  };
+
+  const addFromQuery = () => {
+    const key = query.split(' — ')[0].trim().toLowerCase();
+    if (!key) return;
+    setOverride(key, newCategory);
+    setQuery('');
+  };
+
+  const describe = (key: string) => {
+    const item = items[key];
+    return item ? `${item.itemNumber ? `#${item.itemNumber} ` : ''}${item.itemName}` : key;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[400] bg-black/50 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white max-w-3xl w-full rounded-[2.5rem] shadow-2xl border border-slate-100 flex flex-col max-h-[88vh] overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <header className="p-10 pb-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <div className="text-xs font-black uppercase tracking-widest mb-2 text-indigo-500">Category Classifier</div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">Item → Category Overrides</h3>
+            <p className="text-slate-500 text-xs font-medium mt-2">Overrides win over item-number prefixes and name keywords.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl">✕</button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-10 space-y-8">
+          {/* Add Override */}
+          <div className="flex gap-3">
+            <input
+              list="category-override-items"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Item number or name..."
+              className="flex-1 bg-white border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500"
+            />
+            <datalist id="category-override-items">
+              {Object.values(items).map(i => <option key={i.key} value={`${i.key} — ${i.itemName}`} />)}
+            </datalist>
+            <select value={newCategory} onChange={(e) => setNewCategory(e.target.value)} className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500">
+              {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <button onClick={addFromQuery} disabled={!query.trim()} className="bg-indigo-600 text-white px-6 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-40 transition-all">Add</button>
+          </div>
+
+          {/* Current Overrides */}
+          <div>
+            <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Overrides ({Object.keys(overrides).length})</div>
+            {Object.keys(overrides).length === 0 ? (
+              <p className="text-xs text-slate-400 font-bold">No overrides yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {Object.entries(overrides).sort(([a], [b]) => a.localeCompare(b)).map(([key, category]) => (
+                  <div key={key} className="flex items-center gap-3 p-3 rounded-2xl border border-slate-100">
+                    <span className="flex-1 text-xs font-bold text-slate-700 truncate">{describe(key)}</span>
+                    <select value={category} onChange={(e) => setOverride(key, e.target.value)} className="bg-slate-50 border border-slate-200 text-slate-700 text-[10px] font-black uppercase py-2 px-3 rounded-lg outline-none">
+                      {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <button onClick={() => removeOverride(key)} className="text-slate-300 hover:text-red-500 text-sm font-black">✕</button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Uncategorized Items */}
+          {uncategorized.length > 0 && (
+            <div>
+              <div className="text-[10px] font-black text-amber-600 uppercase tracking-widest mb-3">Unclassified Items · Highest $ Impact</div>
+              <div className="space-y-2">
+                {uncategorized.map(item => (
+                  <div key={item.key} className="flex items-center gap-3 p-3 rounded-2xl bg-amber-50/40 border border-amber-100">
+                    <span className="flex-1 text-xs font-bold text-slate-700 truncate"><span className="font-mono text-slate-400 mr-2">{item.itemNumber}</span>{item.itemName}</span>
+                    <span className="text-[10px] font-mono font-bold text-slate-400">${item.impact.toFixed(0)}</span>
+                    <select value="" onChange={(e) => e.target.value && setOverride(item.key, e.target.value)} className="bg-white border border-slate-200 text-slate-700 text-[10px] font-black uppercase py-2 px-3 rounded-lg outline-none">
+                      <option value="">Assign...</option>
+                      {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
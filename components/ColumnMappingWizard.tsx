@@ -0,0 +1,234 @@
+import React from 'react';
+import { ColumnField, MappingProfile, ParsedSheet } from '../types';
+import { COLUMN_FIELDS, withHeaderRow } from '../services/importService';
+
+interface MappingWizardProps {
+  fileName: string;
+  periodLabel: string;
+  formatLabel: string;
+  sheets: ParsedSheet[];
+  profiles: MappingProfile[];
+  onSaveProfile: (name: string, sheet: ParsedSheet) => MappingProfile;
+  onConfirm: (sheets: ParsedSheet[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 6;
+const HEADER_CHOICES = 30;
+
+const columnLetter = (idx: number): string => {
+  let n = idx + 1;
+  let letters = '';
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letters = String.fromCharCode(65 + rem) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+export const ColumnMappingWizard: React.FC<MappingWizardProps> = ({ fileName, periodLabel, formatLabel, sheets: initialSheets, profiles, onSaveProfile, onConfirm, onCancel }) => {
+  const [sheets, setSheets] = React.useState<ParsedSheet[]>(initialSheets);
+  const [activeIdx, setActiveIdx] = React.useState(() => Math.max(0, initialSheets.findIndex(s => s.included)));
+  const [profileName, setProfileName] = React.useState('');
+
+  const sheet = sheets[activeIdx];
+  const headerRow = sheet && sheet.headerRowIndex >= 0 ? sheet.rows[sheet.headerRowIndex] || [] : [];
+  const columnCount = sheet ? Math.max(headerRow.length, ...sheet.rows.slice(0, HEADER_CHOICES).map(r => r?.length || 0)) : 0;
+  const activeProfile = profiles.find(p => p.id === sheet?.profileId);
+  const includedCount = sheets.filter(s => s.included).length;
+
+  // Mapping edits apply to every sheet sharing the same header layout
+  const updateSheets = (mutate: (s: ParsedSheet) => ParsedSheet) => {
+    setSheets(prev => prev.map((s, i) => (i === activeIdx || (sheet.signature && s.signature === sheet.signature)) ? mutate(s) : s));
+  };
+
+  const setColumn = (field: ColumnField, idx: number) => {
+    updateSheets(s => ({ ...s, colMap: { ...s.colMap, [field]: idx }, manual: [...(s.manual || []).filter(f => f !== field), field], profileId: undefined }));
+  };
+
+  const setHeaderRow = (idx: number) => {
+    setSheets(prev => prev.map((s, i) => i === activeIdx ? withHeaderRow(s, idx) : s));
+  };
+
+  const applyProfile = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    updateSheets(s => ({ ...s, colMap: { ...profile.colMap }, profileId: profile.id }));
+  };
+
+  const saveProfile = () => {
+    if (!profileName.trim() || !sheet) return;
+    const profile = onSaveProfile(profileName.trim(), sheet);
+    updateSheets(s => ({ ...s, profileId: profile.id }));
+    setProfileName('');
+  };
+
+  const fieldBadge = (field: ColumnField) => {
+    if (sheet.profileId) return <span className="text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-md bg-indigo-50 text-indigo-500">Profile</span>;
+    if (sheet.manual?.includes(field)) return <span className="text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-md bg-slate-200 text-slate-600">Manual</span>;
+    if (sheet.detected.includes(field)) return <span className="text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-md bg-emerald-50 text-emerald-600">Detected</span>;
+    return <span className="text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-md bg-amber-50 text-amber-600">Guessed</span>;
+  };
+
+  const mappedFieldFor = (colIdx: number) => COLUMN_FIELDS.find(f => sheet.colMap[f.field] === colIdx);
+
+  return (
+    <div className="fixed inset-0 z-[450] bg-black/60 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-6xl rounded-[3rem] shadow-2xl border border-slate-200 flex flex-col max-h-[92vh] overflow-hidden">
+        <header className="p-10 pb-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <div className="text-xs font-black uppercase tracking-widest mb-2 text-indigo-500">Column Mapping · {periodLabel}</div>
+            <h3 className="text-3xl font-black text-slate-900 tracking-tight leading-none">{fileName}</h3>
+            <div className="mt-3 inline-block text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-lg bg-slate-100 text-slate-500">Detected: {formatLabel}</div>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 text-2xl">✕</button>
+        </header>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Sheet List */}
+          <div className="w-64 bg-slate-50 border-r border-slate-200 p-6 space-y-2 overflow-y-auto custom-scrollbar">
+            {sheets.map((s, i) => (
+              <button
+                key={s.name}
+                onClick={() => setActiveIdx(i)}
+                className={`w-full text-left p-4 rounded-2xl border transition-all ${i === activeIdx ? 'bg-white border-indigo-400 shadow-md' : 'bg-white/60 border-slate-200 hover:border-indigo-200'}`}
+              >
+                <div className="text-xs font-black text-slate-800 truncate">{s.name}</div>
+                <div className="text-[9px] font-bold uppercase tracking-widest mt-1 truncate text-slate-400">{s.marketName}</div>
+                <div className={`text-[9px] font-black uppercase tracking-widest mt-2 ${s.included ? 'text-emerald-600' : 'text-slate-400'}`}>
+                  {s.included ? 'Included' : s.skipReason ? 'Skipped' : 'Excluded'}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Mapping Panel */}
+          {sheet && (
+            <div className="flex-1 p-8 overflow-y-auto custom-scrollbar space-y-6">
+              <div className="flex flex-wrap items-end gap-4">
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Header Row</span>
+                  <select
+                    value={sheet.headerRowIndex}
+                    onChange={(e) => setHeaderRow(Number(e.target.value))}
+                    className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-2 px-3 rounded-xl outline-none focus:border-indigo-500"
+                  >
+                    {sheet.headerRowIndex === -1 && <option value={-1}>Not found</option>}
+                    {sheet.rows.slice(0, HEADER_CHOICES).map((row, i) => (
+                      <option key={i} value={i}>Row {i + 1}: {(row || []).filter(Boolean).slice(0, 3).join(' | ').slice(0, 40)}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 flex-1 min-w-[180px]">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Market Name</span>
+                  <input
+                    value={sheet.marketName}
+                    onChange={(e) => { const v = e.target.value; setSheets(prev => prev.map((s, i) => i === activeIdx ? { ...s, marketName: v } : s)); }}
+                    className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-2 px-3 rounded-xl outline-none focus:border-indigo-500"
+                  />
+                </label>
+                <label className="flex items-center gap-2 pb-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={sheet.included}
+                    disabled={sheet.headerRowIndex === -1}
+                    onChange={(e) => { const v = e.target.checked; setSheets(prev => prev.map((s, i) => i === activeIdx ? { ...s, included: v } : s)); }}
+                  />
+                  <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">Include Sheet</span>
+                </label>
+              </div>
+
+              {sheet.skipReason && !sheet.included && (
+                <div className="p-4 rounded-2xl bg-amber-50 border border-amber-100 text-xs font-bold text-amber-700">Auto-skipped: {sheet.skipReason}. Pick a header row to include it anyway.</div>
+              )}
+
+              {/* Field Assignments */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                {COLUMN_FIELDS.map(({ field, label }) => (
+                  <label key={field} className="flex flex-col gap-1 p-4 rounded-2xl border border-slate-100 bg-slate-50/50">
+                    <span className="flex items-center justify-between gap-2">
+                      <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{label}</span>
+                      {fieldBadge(field)}
+                    </span>
+                    <select
+                      value={sheet.colMap[field]}
+                      onChange={(e) => setColumn(field, Number(e.target.value))}
+                      className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-2 px-3 rounded-xl outline-none focus:border-indigo-500"
+                    >
+                      <option value={-1}>— Not in sheet —</option>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <option key={i} value={i}>{columnLetter(i)} · {String(headerRow[i] ?? '').slice(0, 30) || '(blank)'}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              {/* Preview */}
+              <div className="border border-slate-100 rounded-2xl overflow-x-auto custom-scrollbar">
+                <table className="w-full text-left border-collapse">
+                  <thead>
+                    <tr className="bg-slate-50">
+                      {Array.from({ length: columnCount }, (_, i) => {
+                        const mapped = mappedFieldFor(i);
+                        return (
+                          <th key={i} className={`py-2 px-3 text-[9px] font-black uppercase tracking-widest whitespace-nowrap ${mapped ? 'text-indigo-600 bg-indigo-50' : 'text-slate-300'}`}>
+                            {columnLetter(i)}{mapped ? ` → ${mapped.label}` : ''}
+                          </th>
+                        );
+                      })}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sheet.rows.slice(Math.max(0, sheet.headerRowIndex), Math.max(0, sheet.headerRowIndex) + PREVIEW_ROWS + 1).map((row, rIdx) => (
+                      <tr key={rIdx} className={`border-t border-slate-50 ${rIdx === 0 && sheet.headerRowIndex >= 0 ? 'bg-slate-50 font-black' : ''}`}>
+                        {Array.from({ length: columnCount }, (_, i) => (
+                          <td key={i} className={`py-2 px-3 text-[11px] whitespace-nowrap ${mappedFieldFor(i) ? 'text-slate-800' : 'text-slate-400'}`}>{String(row?.[i] ?? '')}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Profiles */}
+              <div className="flex flex-wrap items-end gap-4 pt-2">
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Apply Saved Profile</span>
+                  <select
+                    value={sheet.profileId || ''}
+                    onChange={(e) => applyProfile(e.target.value)}
+                    className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-2 px-3 rounded-xl outline-none focus:border-indigo-500"
+                  >
+                    <option value="">{profiles.length ? 'Choose profile...' : 'No profiles saved'}</option>
+                    {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 flex-1 min-w-[200px]">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Save This Mapping As</span>
+                  <input
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    placeholder="e.g. Seed Variance Export"
+                    className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-2 px-3 rounded-xl outline-none focus:border-indigo-500"
+                  />
+                </label>
+                <button onClick={saveProfile} disabled={!profileName.trim()} className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600 hover:bg-indigo-100 disabled:opacity-40 transition-all">Save Profile</button>
+                {activeProfile && <span className="text-[10px] font-bold text-indigo-500 pb-3">Using “{activeProfile.name}”</span>}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <footer className="p-8 border-t border-slate-100 flex justify-between items-center">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{includedCount} of {sheets.length} sheets included</span>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Cancel</button>
+            <button onClick={() => onConfirm(sheets)} disabled={includedCount === 0} className="bg-slate-900 text-white px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-slate-800 disabled:opacity-40 transition-all shadow-xl">Import Data</button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
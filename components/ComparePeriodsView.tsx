@@ -0,0 +1,190 @@
+import React from 'react';
+import { PeriodComparison, PeriodDelta, ShrinkRecord, TopListChange } from '../types';
+import { comparePeriods, formatPeriodLabel } from '../services/periodService';
+import { SegmentClassifier } from '../services/segmentService';
+import { TOP_LIST_SIZE, comparePeriodPair, netChange } from '../services/comparisonService';
+
+interface CompareProps {
+  records: ShrinkRecord[];
+  classifySegment: SegmentClassifier;
+  onItemAnalysis: (item: string, type: 'shrink' | 'overage') => void;
+}
+
+const VISIBLE_ITEMS = 20;
+
+const money = (v: number) => `${v < 0 ? '-' : '+'}$${Math.abs(v).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const pct = (v: number | undefined) => v === undefined ? '—' : `${v.toFixed(2)}%`;
+
+// Percentage-point change; `lowerIsBetter` decides which direction is colored red
+const PointDelta: React.FC<{ a?: number; b?: number; lowerIsBetter: boolean }> = ({ a, b, lowerIsBetter }) => {
+  if (a === undefined || b === undefined) return <span className="text-slate-300">—</span>;
+  const diff = b - a;
+  const worse = lowerIsBetter ? diff > 0 : diff < 0;
+  return <span className={diff === 0 ? 'text-slate-400' : worse ? 'text-red-500' : 'text-emerald-500'}>{diff > 0 ? '+' : ''}{diff.toFixed(2)} pts</span>;
+};
+
+const KIND_STYLES: Record<TopListChange['kind'], string> = {
+  new: 'bg-amber-50 text-amber-600 border-amber-100',
+  dropped: 'bg-slate-50 text-slate-500 border-slate-200',
+  flipped: 'bg-indigo-50 text-indigo-600 border-indigo-100'
+};
+
+const DeltaTable: React.FC<{ title: string; rows: PeriodDelta[] }> = ({ title, rows }) => (
+  <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+    <h3 className="text-2xl font-black text-slate-900 tracking-tight mb-8">{title}</h3>
+    <div className="overflow-x-auto">
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr className="border-b border-slate-100">
+            <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Name</th>
+            <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Shrink % A → B</th>
+            <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Δ</th>
+            <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Overage % A → B</th>
+            <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Δ</th>
+            <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Net $ Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b border-slate-50">
+              <td className="py-3 pr-4 text-xs font-black text-slate-700 truncate max-w-[220px]">
+                {row.label}
+                {!row.a && <span className="ml-2 text-[9px] font-black uppercase text-amber-500">New in B</span>}
+                {!row.b && <span className="ml-2 text-[9px] font-black uppercase text-slate-400">Missing in B</span>}
+              </td>
+              <td className="py-3 text-xs font-mono font-bold text-slate-500 text-right">{pct(row.a?.shrinkPct)} → {pct(row.b?.shrinkPct)}</td>
+              <td className="py-3 text-xs font-mono font-black text-right"><PointDelta a={row.a?.shrinkPct} b={row.b?.shrinkPct} lowerIsBetter /></td>
+              <td className="py-3 text-xs font-mono font-bold text-slate-500 text-right">{pct(row.a?.overagePct)} → {pct(row.b?.overagePct)}</td>
+              <td className="py-3 text-xs font-mono font-black text-right"><PointDelta a={row.a?.overagePct} b={row.b?.overagePct} lowerIsBetter /></td>
+              <td className={`py-3 text-xs font-mono font-black text-right ${netChange(row) < 0 ? 'text-red-500' : 'text-emerald-500'}`}>{money(netChange(row))}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const TopListCard: React.FC<{ title: string; changes: TopListChange[]; type: 'shrink' | 'overage'; onItemAnalysis: CompareProps['onItemAnalysis'] }> = ({ title, changes, type, onItemAnalysis }) => (
+  <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+    <header className="mb-8">
+      <h3 className="text-2xl font-black text-slate-900 tracking-tight">{title}</h3>
+      <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Top {TOP_LIST_SIZE} · New, Dropped & Flipped Sign</p>
+    </header>
+    {changes.length === 0 ? (
+      <p className="text-slate-300 font-black uppercase tracking-widest text-center py-6 text-xs">Same items in both periods</p>
+    ) : (
+      <div className="space-y-3">
+        {changes.map(c => (
+          <div key={c.itemName} onClick={() => onItemAnalysis(c.itemName, type)} className="flex items-center gap-4 p-4 rounded-2xl border border-slate-100 hover:bg-slate-50 cursor-pointer transition-all">
+            <span className={`px-2 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${KIND_STYLES[c.kind]}`}>{c.kind}</span>
+            <span className="flex-1 text-xs font-black text-slate-700 truncate">{c.itemName}</span>
+            <span className="text-[10px] font-bold text-slate-400 uppercase">#{c.rankA ?? '—'} → #{c.rankB ?? '—'}</span>
+            <span className="text-xs font-mono font-bold text-slate-500 w-40 text-right">{money(c.netA)} → {money(c.netB)}</span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const ComparePeriodsView: React.FC<CompareProps> = ({ records, classifySegment, onItemAnalysis }) => {
+  const periods: string[] = React.useMemo(() => {
+    return Array.from(new Set<string>(records.map(r => r.period))).sort((a, b) => comparePeriods(b, a));
+  }, [records]);
+
+  const [periodA, setPeriodA] = React.useState(periods[1] || '');
+  const [periodB, setPeriodB] = React.useState(periods[0] || '');
+  const [showAllItems, setShowAllItems] = React.useState(false);
+  const activeA = periods.includes(periodA) ? periodA : periods[1] || '';
+  const activeB = periods.includes(periodB) ? periodB : periods[0] || '';
+
+  const comparison: PeriodComparison = React.useMemo(
+    () => comparePeriodPair(records, activeA, activeB, classifySegment),
+    [records, activeA, activeB, classifySegment]
+  );
+
+  const items = comparison.items.filter(d => netChange(d) !== 0);
+  const visibleItems = showAllItems ? items : items.slice(0, VISIBLE_ITEMS);
+  const { a, b } = comparison.totals;
+
+  if (periods.length < 2) {
+    return <div className="text-center py-20 opacity-50 font-black text-slate-300 uppercase tracking-widest">Load at least two periods to compare</div>;
+  }
+
+  const periodSelect = (value: string, onChange: (v: string) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500 uppercase tracking-wider">
+      {periods.map(p => <option key={p} value={p}>{formatPeriodLabel(p)}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="space-y-8 pb-12">
+      <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+        <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <h3 className="text-3xl font-black text-slate-900 tracking-tighter uppercase">Period Compare</h3>
+            <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Period A vs. Period B · Current Market, Category & Segment Filters</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">A</span>
+            {periodSelect(activeA, setPeriodA)}
+            <button onClick={() => { setPeriodA(activeB); setPeriodB(activeA); }} title="Swap periods" className="px-3 py-3 rounded-xl text-sm font-black text-slate-400 hover:text-indigo-600 hover:bg-slate-50 transition-all">⇄</button>
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">B</span>
+            {periodSelect(activeB, setPeriodB)}
+          </div>
+        </header>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: 'Shrink %', a: a?.shrinkPct, b: b?.shrinkPct, lowerIsBetter: true },
+            { label: 'Overage %', a: a?.overagePct, b: b?.overagePct, lowerIsBetter: true },
+            { label: 'Net %', a: a && a.revenue ? (a.net / a.revenue) * 100 : undefined, b: b && b.revenue ? (b.net / b.revenue) * 100 : undefined, lowerIsBetter: false },
+            { label: 'Integrity', a: a?.integrity, b: b?.integrity, lowerIsBetter: false }
+          ].map(kpi => (
+            <div key={kpi.label} className="p-6 rounded-3xl bg-slate-50 border border-slate-100">
+              <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{kpi.label}</div>
+              <div className="text-lg font-black text-slate-900 mt-1">{pct(kpi.a)} → {pct(kpi.b)}</div>
+              <div className="text-xs font-mono font-black mt-1"><PointDelta a={kpi.a} b={kpi.b} lowerIsBetter={kpi.lowerIsBetter} /></div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <TopListCard title="Top Shrink Changes" changes={comparison.topShrink} type="shrink" onItemAnalysis={onItemAnalysis} />
+        <TopListCard title="Top Overage Changes" changes={comparison.topOverage} type="overage" onItemAnalysis={onItemAnalysis} />
+      </div>
+
+      <DeltaTable title="Markets" rows={comparison.markets} />
+      <DeltaTable title="Segments" rows={comparison.segments} />
+
+      <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+        <header className="mb-8">
+          <h3 className="text-2xl font-black text-slate-900 tracking-tight">Item Movers</h3>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Largest Net Variance Change A → B</p>
+        </header>
+        {items.length === 0 ? (
+          <p className="text-slate-300 font-black uppercase tracking-widest text-center py-6 text-xs">No item changed between these periods</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {visibleItems.map(d => (
+                <div key={d.key} onClick={() => onItemAnalysis(d.label, netChange(d) < 0 ? 'shrink' : 'overage')} className="grid grid-cols-12 items-center gap-4 px-4 py-3 rounded-2xl border border-slate-100 hover:bg-slate-50 cursor-pointer transition-all">
+                  <span className="col-span-6 text-xs font-black text-slate-700 truncate">{d.label}</span>
+                  <span className="col-span-2 text-xs font-mono font-bold text-slate-400 text-right">{d.a ? money(d.a.net) : '—'}</span>
+                  <span className="col-span-2 text-xs font-mono font-bold text-slate-500 text-right">{d.b ? money(d.b.net) : '—'}</span>
+                  <span className={`col-span-2 text-xs font-mono font-black text-right ${netChange(d) < 0 ? 'text-red-500' : 'text-emerald-500'}`}>{money(netChange(d))}</span>
+                </div>
+              ))}
+            </div>
+            {items.length > VISIBLE_ITEMS && (
+              <button onClick={() => setShowAllItems(v => !v)} className="mt-4 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+                {showAllItems ? 'Show Fewer' : `Show All ${items.length} Items`}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
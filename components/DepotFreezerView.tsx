@@ -0,0 +1,139 @@
+import React from 'react';
+import { FreezerCount, ShrinkRecord } from '../types';
+import { comparePeriods, formatPeriodLabel } from '../services/periodService';
+import { SegmentClassifier } from '../services/segmentService';
+import { allocateFreezerCounts, buildFreezerIndex, freezerCountFor, freezerItemKey, reconcileRecord, setFreezerCount } from '../services/freezerService';
+
+interface DepotFreezerProps {
+  records: ShrinkRecord[];
+  counts: FreezerCount[];
+  classifySegment: SegmentClassifier;
+  onChange: (counts: FreezerCount[]) => void;
+}
+
+const money = (v: number) => `$${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const DepotFreezerView: React.FC<DepotFreezerProps> = ({ records, counts, classifySegment, onChange }) => {
+  const periods: string[] = React.useMemo(() => {
+    return Array.from(new Set<string>(records.map(r => r.period))).sort((a, b) => comparePeriods(b, a));
+  }, [records]);
+
+  const [period, setPeriod] = React.useState(periods[0] || '');
+  const activePeriod = periods.includes(period) ? period : periods[0] || '';
+
+  const markets: string[] = React.useMemo(() => {
+    return Array.from(new Set<string>(records.filter(r => r.period === activePeriod).map(r => r.marketName))).sort();
+  }, [records, activePeriod]);
+
+  const [market, setMarket] = React.useState('');
+  const activeMarket = markets.includes(market) ? market : markets[0] || '';
+  const [includeAllShrink, setIncludeAllShrink] = React.useState(false);
+
+  const index = React.useMemo(() => buildFreezerIndex(counts), [counts]);
+
+  // Frozen-segment items by default; any shrink item when the segment rules miss something
+  // Duplicate rows for one item share its count rather than each reconciling against all of it
+  const rows = React.useMemo(() => {
+    const marketRecords = (records as ShrinkRecord[]).filter(r => r.period === activePeriod && r.marketName === activeMarket);
+    const applied = allocateFreezerCounts(marketRecords, counts);
+    return marketRecords
+      .filter(r => classifySegment(r.itemNumber, r.itemName).kind === 'frozen' || (includeAllShrink && r.invVariance < 0))
+      .map(r => {
+        const count = freezerCountFor(index, r);
+        return { record: r, count, ...reconcileRecord(r, applied[r.id] || 0) };
+      })
+      .sort((a, b) => b.record.shrinkLoss - a.record.shrinkLoss);
+  }, [records, counts, activePeriod, activeMarket, classifySegment, includeAllShrink, index]);
+
+  const totals = rows.reduce((t, row) => ({
+    shrink: t.shrink + (row.record.shrinkLoss || 0),
+    phantom: t.phantom + row.phantomShrink,
+    real: t.real + row.adjustedShrink
+  }), { shrink: 0, phantom: 0, real: 0 });
+
+  const updateCount = (r: ShrinkRecord, value: string) => {
+    const count = Math.max(0, parseFloat(value) || 0);
+    onChange(setFreezerCount(counts, r.period, r.marketName, freezerItemKey(r.itemNumber, r.itemName), count));
+  };
+
+  return (
+    <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+      <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h3 className="text-3xl font-black text-slate-900 tracking-tighter uppercase">Depot Freezer Reconciliation</h3>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Count What's in the Freezer · Separate Phantom Shrink from Real Loss</p>
+        </div>
+        <div className="flex gap-3">
+          <select value={activePeriod} onChange={(e) => setPeriod(e.target.value)} className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500 uppercase tracking-wider">
+            {periods.map(p => <option key={p} value={p}>{formatPeriodLabel(p)}</option>)}
+          </select>
+          <select value={activeMarket} onChange={(e) => setMarket(e.target.value)} className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500 uppercase tracking-wider">
+            {markets.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        <div className="p-6 rounded-3xl bg-slate-50 border border-slate-100">
+          <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">System Shrink</div>
+          <div className="text-2xl font-black text-slate-900 mt-1">{money(totals.shrink)}</div>
+        </div>
+        <div className="p-6 rounded-3xl bg-sky-50 border border-sky-100">
+          <div className="text-[10px] font-black text-sky-600 uppercase tracking-widest">Phantom Shrink</div>
+          <div className="text-2xl font-black text-sky-600 mt-1">{money(totals.phantom)}</div>
+        </div>
+        <div className="p-6 rounded-3xl bg-red-50 border border-red-100">
+          <div className="text-[10px] font-black text-red-500 uppercase tracking-widest">Real Loss</div>
+          <div className="text-2xl font-black text-red-500 mt-1">{money(totals.real)}</div>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 mb-4 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+        <input type="checkbox" checked={includeAllShrink} onChange={(e) => setIncludeAllShrink(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+        Include shrink items outside the Frozen segment
+      </label>
+
+      {rows.length === 0 ? (
+        <p className="text-slate-300 font-black uppercase tracking-widest text-center py-10 text-xs">No frozen items for this market and period</p>
+      ) : (
+        <div className="border border-slate-100 rounded-2xl overflow-hidden">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Item</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">System Var</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Shrink</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Freezer Count</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Adjusted Var</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Phantom</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Real Loss</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.record.id} className="border-t border-slate-50">
+                  <td className="py-2 px-4 text-xs font-bold text-slate-700"><span className="font-mono text-slate-400 mr-2">{row.record.itemNumber}</span>{row.record.itemName}</td>
+                  <td className={`py-2 px-4 text-xs font-mono font-bold text-right ${row.record.invVariance < 0 ? 'text-red-500' : 'text-slate-500'}`}>{row.record.invVariance}</td>
+                  <td className="py-2 px-4 text-xs font-mono font-bold text-right text-slate-700">{money(row.record.shrinkLoss)}</td>
+                  <td className="py-1 px-4 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      defaultValue={row.count || ''}
+                      key={`${row.record.id}-${row.count}`}
+                      onBlur={(e) => { if ((parseFloat(e.target.value) || 0) !== row.count) updateCount(row.record, e.target.value); }}
+                      className="w-24 text-right font-mono text-xs font-bold text-slate-700 bg-slate-50 border border-slate-200 focus:border-indigo-400 rounded-lg px-2 py-1.5 outline-none"
+                    />
+                  </td>
+                  <td className={`py-2 px-4 text-xs font-mono font-bold text-right ${row.adjustedVariance < 0 ? 'text-red-500' : 'text-emerald-500'}`}>{row.adjustedVariance}</td>
+                  <td className="py-2 px-4 text-xs font-mono font-black text-right text-sky-600">{money(row.phantomShrink)}</td>
+                  <td className="py-2 px-4 text-xs font-mono font-black text-right text-red-500">{money(row.adjustedShrink)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { DriverAssignment, DriverScorecard, ShrinkRecord } from '../types';
+import { formatPeriodLabel, comparePeriods } from '../services/periodService';
+import { DriverLookup, UNASSIGNED_DRIVER, driverRoster, setDriverAssignment } from '../services/driverService';
+
+interface DriverViewProps {
+  records: ShrinkRecord[];
+  scorecards: DriverScorecard[];
+  assignments: DriverAssignment[];
+  lookup: DriverLookup;
+  onChange: (assignments: DriverAssignment[]) => void;
+}
+
+const money = (v: number) => `$${v.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+export const DriverScorecardView: React.FC<DriverViewProps> = ({ records, scorecards, assignments, lookup, onChange }) => {
+  const periods: string[] = React.useMemo(() => {
+    return Array.from(new Set<string>(records.map(r => r.period))).sort((a, b) => comparePeriods(b, a));
+  }, [records]);
+
+  const [period, setPeriod] = React.useState(periods[0] || '');
+  const activePeriod = periods.includes(period) ? period : periods[0] || '';
+
+  const markets: string[] = React.useMemo(() => {
+    return Array.from(new Set<string>(records.filter(r => r.period === activePeriod).map(r => r.marketName))).sort();
+  }, [records, activePeriod]);
+
+  const roster = React.useMemo(() => driverRoster(assignments), [assignments]);
+  const worstIntegrity = Math.min(...scorecards.map(c => c.integrity));
+
+  return (
+    <div className="space-y-8 pb-12">
+      {/* Scorecards */}
+      <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+        <header className="mb-8">
+          <h3 className="text-3xl font-black text-slate-900 tracking-tighter uppercase">Driver Scorecards</h3>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Shrink, Overage & Integrity by Route Owner · Current Filters</p>
+        </header>
+        {scorecards.length === 0 ? (
+          <p className="text-slate-300 font-black uppercase tracking-widest text-center py-10">No records in the current filters</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-slate-100">
+                  <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Driver</th>
+                  <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Markets</th>
+                  <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Revenue</th>
+                  <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Shrink</th>
+                  <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Overage</th>
+                  <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Integrity</th>
+                  <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right" title="Overage on cold and frozen items, usually a skipped tablet Add">Missed Adds</th>
+                  <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right" title="Shrink on frozen items, usually stock left in the depot freezer">Frozen Shrink</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scorecards.map(card => (
+                  <tr key={card.driver} className="border-b border-slate-50">
+                    <td className="py-4">
+                      <div className={`text-sm font-black ${card.driver === UNASSIGNED_DRIVER ? 'text-slate-400 italic' : 'text-slate-900'}`}>{card.driver}</div>
+                      <div className="text-[10px] font-bold text-slate-400 truncate max-w-[260px]">{card.markets.join(', ')}</div>
+                    </td>
+                    <td className="py-4 text-xs font-mono font-bold text-slate-500 text-right">{card.markets.length}</td>
+                    <td className="py-4 text-xs font-mono font-bold text-slate-700 text-right">{money(card.revenue)}</td>
+                    <td className="py-4 text-right">
+                      <div className="text-xs font-mono font-black text-red-500">-{money(card.shrink)}</div>
+                      <div className="text-[10px] font-bold text-red-300">{card.shrinkPct.toFixed(2)}%</div>
+                    </td>
+                    <td className="py-4 text-right">
+                      <div className="text-xs font-mono font-black text-emerald-500">+{money(card.overage)}</div>
+                      <div className="text-[10px] font-bold text-emerald-300">{card.overagePct.toFixed(2)}%</div>
+                    </td>
+                    <td className={`py-4 text-sm font-black text-right ${card.integrity === worstIntegrity && scorecards.length > 1 ? 'text-red-500' : 'text-slate-900'}`}>{card.integrity.toFixed(2)}%</td>
+                    <td className="py-4 text-xs font-mono font-bold text-amber-600 text-right">{money(card.missedAdds)}</td>
+                    <td className="py-4 text-xs font-mono font-bold text-sky-600 text-right">{money(card.frozenShrink)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Assignment Table */}
+      <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+        <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">Route Assignments</h3>
+            <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Driver ↔ Market per Period · Unset periods inherit the previous assignment</p>
+          </div>
+          <select
+            value={activePeriod}
+            onChange={(e) => setPeriod(e.target.value)}
+            className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500 uppercase tracking-wider"
+          >
+            {periods.map(p => <option key={p} value={p}>{formatPeriodLabel(p)}</option>)}
+          </select>
+        </header>
+        <datalist id="driver-roster">
+          {roster.map(d => <option key={d} value={d} />)}
+        </datalist>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {markets.map(market => {
+            const explicit = assignments.find(a => a.period === activePeriod && a.marketName === market);
+            const inherited = lookup(market, activePeriod);
+            return (
+              <div key={market} className="flex items-center gap-3 p-4 rounded-2xl border border-slate-100">
+                <span className="flex-1 text-xs font-black text-slate-700 truncate">{market}</span>
+                <input
+                  list="driver-roster"
+                  defaultValue={explicit?.driver || ''}
+                  key={`${activePeriod}-${market}-${explicit?.driver || ''}`}
+                  placeholder={inherited !== UNASSIGNED_DRIVER ? `${inherited} (inherited)` : 'Assign driver...'}
+                  onBlur={(e) => {
+                    if (e.target.value.trim() !== (explicit?.driver || '')) onChange(setDriverAssignment(assignments, activePeriod, market, e.target.value));
+                  }}
+                  className="w-56 bg-slate-50 border border-slate-200 text-slate-700 text-xs font-bold py-2 px-3 rounded-xl outline-none focus:border-indigo-500"
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
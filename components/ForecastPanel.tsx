@@ -0,0 +1,98 @@
+import React from 'react';
+import { ForecastMetric, ForecastScope, SeriesForecast } from '../types';
+import { formatPeriodLabel } from '../services/periodService';
+import { FORECAST_METRIC_LABELS, MIN_FORECAST_PERIODS } from '../services/forecastService';
+
+interface ForecastPanelProps {
+  forecasts: SeriesForecast[];
+  horizon: number;
+}
+
+// Higher is better for integrity; for shrink and overage a rising forecast is the warning
+const isWorsening = (metric: ForecastMetric, from: number, to: number) => metric === 'integrity' ? to < from : to > from;
+
+export const ForecastPanel: React.FC<ForecastPanelProps> = ({ forecasts, horizon }) => {
+  const [scope, setScope] = React.useState<Exclude<ForecastScope, 'total'>>('market');
+  const [metric, setMetric] = React.useState<ForecastMetric>('shrinkPct');
+
+  const total = forecasts.find(f => f.scope === 'total');
+  const rows = forecasts.filter(f => f.scope === scope);
+  const futurePeriods = (total?.forecasts[metric] || []).map(p => p.period);
+
+  if (horizon === 0) return null;
+
+  return (
+    <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm mb-8">
+      <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h3 className="text-2xl font-black text-slate-900 tracking-tight">Forecast</h3>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Linear Trend · Next {horizon} Period{horizon > 1 ? 's' : ''} · 95% Prediction Band</p>
+        </div>
+        <div className="flex flex-wrap gap-3 items-center">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {(['market', 'segment'] as const).map(s => (
+              <button key={s} onClick={() => setScope(s)} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${scope === s ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>
+                {s === 'market' ? 'Markets' : 'Segments'}
+              </button>
+            ))}
+          </div>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as ForecastMetric)}
+            className="bg-white border border-slate-200 text-slate-700 text-[10px] font-black py-3 px-4 rounded-xl outline-none focus:border-indigo-500 uppercase tracking-widest"
+          >
+            {(Object.keys(FORECAST_METRIC_LABELS) as ForecastMetric[]).map(m => <option key={m} value={m}>{FORECAST_METRIC_LABELS[m]}</option>)}
+          </select>
+        </div>
+      </header>
+
+      {futurePeriods.length === 0 ? (
+        <p className="text-slate-300 font-black uppercase tracking-widest text-center py-6 text-xs">Select {MIN_FORECAST_PERIODS}+ periods to project a trend</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="border-b border-slate-100">
+                <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">{scope === 'market' ? 'Market' : 'Segment'}</th>
+                <th className="py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Last Actual</th>
+                {futurePeriods.map(p => (
+                  <th key={p} className="py-3 text-[10px] font-black text-indigo-400 uppercase tracking-widest text-right">{formatPeriodLabel(p, true)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {[...(total ? [total] : []), ...rows].map(row => {
+                const points = row.forecasts[metric];
+                return (
+                  <tr key={`${row.scope}-${row.label}`} className={`border-b border-slate-50 ${row.scope === 'total' ? 'bg-slate-50/60' : ''}`}>
+                    <td className="py-3 pr-4">
+                      <div className={`text-xs font-black truncate max-w-[220px] ${row.scope === 'total' ? 'text-indigo-600' : 'text-slate-700'}`}>{row.label}</div>
+                      <div className="text-[10px] font-bold text-slate-400">{row.historyPeriods} periods</div>
+                    </td>
+                    <td className="py-3 text-xs font-mono font-bold text-slate-500 text-right">{row.latest[metric].toFixed(2)}%</td>
+                    {points.length === 0 ? (
+                      <td colSpan={futurePeriods.length} className="py-3 text-[10px] font-black text-slate-300 uppercase tracking-widest text-right">Needs {MIN_FORECAST_PERIODS}+ periods</td>
+                    ) : futurePeriods.map(period => {
+                      // A market that stopped reporting early projects from its own last period
+                      const p = points.find(point => point.period === period);
+                      return (
+                        <td key={period} className="py-3 text-right">
+                          {p ? (
+                            <>
+                              <div className={`text-xs font-mono font-black ${isWorsening(metric, row.latest[metric], p.value) ? 'text-red-500' : 'text-emerald-500'}`}>{p.value.toFixed(2)}%</div>
+                              <div className="text-[10px] font-mono font-bold text-slate-300">{p.lower.toFixed(1)}–{p.upper.toFixed(1)}</div>
+                            </>
+                          ) : <span className="text-xs font-bold text-slate-300">—</span>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
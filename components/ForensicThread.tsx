@@ -0,0 +1,53 @@
+import React from 'react';
+import { ChatTurn } from '../types';
+import { describeFilters, sameFilters } from '../services/aiHistoryService';
+
+interface ThreadProps {
+  turns: ChatTurn[];
+  isStreaming: boolean;
+}
+
+export const ForensicThread: React.FC<ThreadProps> = ({ turns, isStreaming }) => {
+  let lastFilters: ChatTurn['filters'];
+
+  return (
+    <div className="space-y-8">
+      {turns.map((turn, idx) => {
+        if (turn.role === 'user') {
+          // Mark where the data context behind the answers changed mid-investigation
+          const refreshed = lastFilters && turn.filters && !sameFilters(lastFilters, turn.filters);
+          lastFilters = turn.filters || lastFilters;
+          return (
+            <React.Fragment key={idx}>
+              {refreshed && (
+                <div className="flex items-center gap-4 animate-in fade-in">
+                  <div className="flex-1 border-t border-dashed border-indigo-200" />
+                  <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Data Context Refreshed · {describeFilters(turn.filters!)}</span>
+                  <div className="flex-1 border-t border-dashed border-indigo-200" />
+                </div>
+              )}
+              <div className="flex justify-end animate-in fade-in slide-in-from-bottom-6">
+                <div className="max-w-[80%] bg-indigo-600 text-white px-6 py-4 rounded-[2rem] rounded-br-lg text-sm font-bold shadow-lg shadow-indigo-100">
+                  {turn.text}
+                </div>
+              </div>
+            </React.Fragment>
+          );
+        }
+
+        const isPending = isStreaming && idx === turns.length - 1 && !turn.text;
+        return (
+          <div key={idx} className={`prose prose-indigo max-w-none font-medium whitespace-pre-wrap leading-relaxed animate-in fade-in slide-in-from-bottom-6 ${turn.failed ? 'text-red-500' : 'text-slate-700'}`}>
+            {isPending ? (
+              <div className="flex gap-2 py-2">
+                <div className="w-2 h-2 bg-indigo-300 rounded-full animate-bounce" />
+                <div className="w-2 h-2 bg-indigo-300 rounded-full animate-bounce [animation-delay:150ms]" />
+                <div className="w-2 h-2 bg-indigo-300 rounded-full animate-bounce [animation-delay:300ms]" />
+              </div>
+            ) : turn.text}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React from 'react';
+import { ImportBatch } from '../types';
+import { formatPeriodLabel } from '../services/periodService';
+import { findSupersedingBatch } from '../services/importBatchService';
+
+interface ImportHistoryProps {
+  batches: ImportBatch[];
+  onRollback: (batchId: string) => void;
+  onReapply: (batchId: string) => void;
+}
+
+const INSPECT_ROW_LIMIT = 100;
+
+export const ImportHistoryPanel: React.FC<ImportHistoryProps> = ({ batches, onRollback, onReapply }) => {
+  const [expandedId, setExpandedId] = React.useState<string | null>(null);
+
+  if (batches.length === 0) {
+    return (
+      <div className="bg-white p-16 rounded-[4rem] border border-slate-200 shadow-sm text-center">
+        <p className="text-slate-300 font-black uppercase tracking-widest">No imports recorded yet</p>
+        <p className="text-slate-400 text-xs font-bold mt-2">Every file dropped on the month grid is logged here as a batch you can roll back.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+      <header className="mb-8">
+        <h3 className="text-3xl font-black text-slate-900 tracking-tighter uppercase">Import History</h3>
+        <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Per-File Batches · Inspect, Roll Back or Re-Apply</p>
+      </header>
+
+      <div className="space-y-4">
+        {batches.map(batch => {
+          const isExpanded = expandedId === batch.id;
+          const isApplied = batch.status === 'applied';
+          const supersededBy = findSupersedingBatch(batches, batch);
+          return (
+            <div key={batch.id} className={`rounded-3xl border transition-all ${isApplied ? 'border-slate-100 bg-white' : 'border-dashed border-slate-200 bg-slate-50 opacity-70'}`}>
+              <div className="flex flex-wrap items-center justify-between gap-4 p-6">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-black text-slate-900 truncate max-w-[320px]">{batch.fileName}</span>
+                    <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-lg ${isApplied ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-200 text-slate-500'}`}>
+                      {isApplied ? 'Applied' : 'Rolled Back'}
+                    </span>
+                  </div>
+                  <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-2 flex flex-wrap gap-x-4 gap-y-1">
+                    <span>{new Date(batch.importedAt).toLocaleString()}</span>
+                    <span className="text-indigo-500">{formatPeriodLabel(batch.period)}</span>
+                    <span>{batch.mode === 'merge' ? 'Merged' : 'Replaced Month'}</span>
+                    <span>{batch.rowCount} rows</span>
+                    <span>{batch.markets.length} markets</span>
+                    {batch.replacedRecords.length > 0 && <span>{batch.replacedRecords.length} replaced</span>}
+                    {supersededBy && <span className="text-amber-500">Superseded by {supersededBy.fileName}</span>}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : batch.id)}
+                    className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all"
+                  >
+                    {isExpanded ? 'Hide' : 'Inspect'}
+                  </button>
+                  {supersededBy ? (
+                    <button disabled title={`Roll back ${supersededBy.fileName} first`} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-50 text-slate-300 cursor-not-allowed">
+                      {isApplied ? 'Roll Back' : 'Re-Apply'}
+                    </button>
+                  ) : isApplied ? (
+                    <button onClick={() => onRollback(batch.id)} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-red-50 text-red-500 hover:bg-red-100 transition-all">Roll Back</button>
+                  ) : (
+                    <button onClick={() => onReapply(batch.id)} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all">Re-Apply</button>
+                  )}
+                </div>
+              </div>
+
+              {isExpanded && (
+                <div className="px-6 pb-6">
+                  <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-3">Markets: {batch.markets.join(', ') || 'None detected'}</div>
+                  <div className="max-h-80 overflow-y-auto custom-scrollbar border border-slate-100 rounded-2xl">
+                    <table className="w-full text-left border-collapse">
+                      <thead className="sticky top-0 bg-slate-50">
+                        <tr>
+                          <th className="py-2 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Item</th>
+                          <th className="py-2 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Market</th>
+                          <th className="py-2 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Var Qty</th>
+                          <th className="py-2 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Net $</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {batch.records.slice(0, INSPECT_ROW_LIMIT).map(r => (
+                          <tr key={r.id} className="border-t border-slate-50">
+                            <td className="py-2 px-4 text-xs font-bold text-slate-700"><span className="font-mono text-slate-400 mr-2">{r.itemNumber}</span>{r.itemName}</td>
+                            <td className="py-2 px-4 text-xs text-slate-500">{r.marketName}</td>
+                            <td className={`py-2 px-4 text-xs font-mono font-bold text-right ${r.invVariance < 0 ? 'text-red-500' : r.invVariance > 0 ? 'text-emerald-500' : 'text-slate-400'}`}>{r.invVariance}</td>
+                            <td className="py-2 px-4 text-xs font-mono font-bold text-right text-slate-900">{r.netVarianceValue.toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {batch.records.length > INSPECT_ROW_LIMIT && (
+                    <p className="text-[10px] text-slate-400 font-bold mt-2">Showing first {INSPECT_ROW_LIMIT} of {batch.records.length} rows.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React from 'react';
+import { DraftRow, SkippedSheet, ValidationIssueKind } from '../types';
+import { validateDraftRows } from '../services/importValidationService';
+
+interface ValidationReportProps {
+  fileName: string;
+  periodLabel: string;
+  rows: DraftRow[];
+  skippedSheets: SkippedSheet[];
+  onConfirm: (rows: DraftRow[]) => void;
+  onCancel: () => void;
+}
+
+const ALL_ROWS_LIMIT = 300;
+
+const ISSUE_LABELS: Record<ValidationIssueKind, { label: string; tone: string }> = {
+  'non-numeric-variance': { label: 'Bad Variance', tone: 'bg-red-50 text-red-600' },
+  'non-numeric-cost': { label: 'Bad Cost', tone: 'bg-red-50 text-red-600' },
+  'missing-cost': { label: 'No Cost', tone: 'bg-amber-50 text-amber-600' },
+  'duplicate-item': { label: 'Duplicate', tone: 'bg-indigo-50 text-indigo-600' },
+  'total-row': { label: 'Subtotal', tone: 'bg-slate-100 text-slate-500' }
+};
+
+export const ImportValidationReport: React.FC<ValidationReportProps> = ({ fileName, periodLabel, rows: initialRows, skippedSheets, onConfirm, onCancel }) => {
+  const [rows, setRows] = React.useState<DraftRow[]>(initialRows);
+  const [showAll, setShowAll] = React.useState(false);
+
+  const issues = React.useMemo(() => validateDraftRows(rows), [rows]);
+  const issuesByRow = React.useMemo(() => {
+    const map = new Map<string, typeof issues>();
+    issues.forEach(issue => map.set(issue.rowId, [...(map.get(issue.rowId) || []), issue]));
+    return map;
+  }, [issues]);
+
+  const counts = React.useMemo(() => {
+    const c: Partial<Record<ValidationIssueKind, number>> = {};
+    issues.forEach(issue => { c[issue.kind] = (c[issue.kind] || 0) + 1; });
+    return c;
+  }, [issues]);
+
+  // Keep flagged rows visible while they are being fixed, so a row doesn't vanish mid-edit
+  const [flaggedIds] = React.useState(() => new Set(validateDraftRows(initialRows).map(i => i.rowId)));
+  const visibleRows = showAll ? rows.slice(0, ALL_ROWS_LIMIT) : rows.filter(r => flaggedIds.has(r.id) || issuesByRow.has(r.id));
+  const includedCount = rows.filter(r => !r.excluded).length;
+
+  const updateRow = (id: string, patch: Partial<DraftRow>) => {
+    setRows(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const excludeFlagged = (kind: ValidationIssueKind) => {
+    const ids = new Set(issues.filter(i => i.kind === kind).map(i => i.rowId));
+    setRows(prev => prev.map(r => ids.has(r.id) ? { ...r, excluded: true } : r));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[450] bg-black/60 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-6xl rounded-[3rem] shadow-2xl border border-slate-200 flex flex-col max-h-[92vh] overflow-hidden">
+        <header className="p-10 pb-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <div className="text-xs font-black uppercase tracking-widest mb-2 text-indigo-500">Validation Report · {periodLabel}</div>
+            <h3 className="text-3xl font-black text-slate-900 tracking-tight leading-none">{fileName}</h3>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 text-2xl">✕</button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-10 space-y-8">
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {(Object.keys(ISSUE_LABELS) as ValidationIssueKind[]).map(kind => (
+              <div key={kind} className="p-5 rounded-3xl border border-slate-100 bg-slate-50">
+                <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{ISSUE_LABELS[kind].label}</div>
+                <div className="text-2xl font-black text-slate-900 mt-1">{counts[kind] || 0}</div>
+                {kind !== 'total-row' && (counts[kind] || 0) > 0 && (
+                  <button onClick={() => excludeFlagged(kind)} className="mt-2 text-[9px] font-black uppercase tracking-widest text-red-500 hover:text-red-700">Exclude All</button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Skipped Sheets */}
+          {skippedSheets.length > 0 && (
+            <div className="p-6 rounded-3xl border border-amber-100 bg-amber-50/50">
+              <div className="text-[10px] font-black text-amber-600 uppercase tracking-widest mb-3">Skipped Sheets ({skippedSheets.length})</div>
+              <ul className="space-y-1">
+                {skippedSheets.map(s => (
+                  <li key={s.name} className="text-xs text-slate-700"><span className="font-black">{s.name}</span> <span className="text-slate-500">— {s.reason}</span></li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Rows */}
+          <div>
+            <div className="flex justify-between items-center mb-3">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                {showAll ? `All Rows${rows.length > ALL_ROWS_LIMIT ? ` (first ${ALL_ROWS_LIMIT} of ${rows.length})` : ''}` : 'Flagged Rows'}
+              </span>
+              <button onClick={() => setShowAll(v => !v)} className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+                {showAll ? 'Show Flagged Only' : 'Show All Rows'}
+              </button>
+            </div>
+            {visibleRows.length === 0 ? (
+              <div className="p-10 text-center rounded-3xl border border-dashed border-slate-200 text-xs font-black text-slate-300 uppercase tracking-widest">No row-level issues found</div>
+            ) : (
+              <div className="border border-slate-100 rounded-2xl overflow-hidden">
+                <table className="w-full text-left border-collapse">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="py-2 px-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Use</th>
+                      <th className="py-2 px-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Source</th>
+                      <th className="py-2 px-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Item</th>
+                      <th className="py-2 px-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Var Qty</th>
+                      <th className="py-2 px-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Unit Cost</th>
+                      <th className="py-2 px-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(row => {
+                      const rowIssues = issuesByRow.get(row.id) || [];
+                      return (
+                        <tr key={row.id} className={`border-t border-slate-50 ${row.excluded ? 'opacity-50' : ''}`}>
+                          <td className="py-2 px-3">
+                            <input type="checkbox" checked={!row.excluded} onChange={(e) => updateRow(row.id, { excluded: !e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+                          </td>
+                          <td className="py-2 px-3 text-[10px] font-bold text-slate-400 whitespace-nowrap">{row.source} · R{row.rowNumber}</td>
+                          <td className="py-2 px-3 text-xs font-bold text-slate-700"><span className="font-mono text-slate-400 mr-2">{row.itemNumber}</span>{row.itemName}</td>
+                          <td className="py-1 px-2 w-28">
+                            <input value={row.variance} onChange={(e) => updateRow(row.id, { variance: e.target.value })} className="w-full text-right font-mono text-xs font-bold text-slate-700 bg-transparent border border-slate-100 focus:border-indigo-400 rounded-lg px-2 py-1.5 outline-none" />
+                          </td>
+                          <td className="py-1 px-2 w-28">
+                            <input value={row.unitCost} onChange={(e) => updateRow(row.id, { unitCost: e.target.value })} className="w-full text-right font-mono text-xs font-bold text-slate-700 bg-transparent border border-slate-100 focus:border-indigo-400 rounded-lg px-2 py-1.5 outline-none" />
+                          </td>
+                          <td className="py-2 px-3">
+                            <div className="flex flex-wrap gap-1">
+                              {rowIssues.map(issue => (
+                                <span key={issue.kind} title={issue.message} className={`text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-md ${ISSUE_LABELS[issue.kind].tone}`}>{ISSUE_LABELS[issue.kind].label}</span>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <footer className="p-8 border-t border-slate-100 flex justify-between items-center">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{includedCount} of {rows.length} rows will be committed</span>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Cancel</button>
+            <button
+              onClick={() => onConfirm(rows)}
+              disabled={includedCount === 0}
+              className="bg-slate-900 text-white px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-slate-800 disabled:opacity-40 transition-all shadow-xl"
+            >
+              Commit {includedCount} Rows
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React from 'react';
+import { BenchmarkMetric, MarketBenchmark, MarketPeerGroup } from '../types';
+import { BENCHMARK_METRICS, medianOf, percentileRank } from '../services/benchmarkService';
+
+interface BenchmarkProps {
+  benchmarks: MarketBenchmark[];
+  groups: MarketPeerGroup[];
+  onGroupsChange: (groups: MarketPeerGroup[]) => void;
+}
+
+type SortKey = BenchmarkMetric | 'marketName' | 'revenue';
+
+const ALL_MARKETS = 'ALL';
+
+const percentileTone = (p: number) => p >= 75 ? 'bg-emerald-400' : p >= 25 ? 'bg-amber-300' : 'bg-red-400';
+
+export const MarketBenchmarkView: React.FC<BenchmarkProps> = ({ benchmarks, groups, onGroupsChange }) => {
+  const [groupId, setGroupId] = React.useState(ALL_MARKETS);
+  const [sortKey, setSortKey] = React.useState<SortKey>('integrity');
+  const [sortDesc, setSortDesc] = React.useState(true);
+  const [newGroupName, setNewGroupName] = React.useState('');
+
+  const activeGroup = groups.find(g => g.id === groupId);
+  const peers = activeGroup ? benchmarks.filter(b => activeGroup.markets.includes(b.marketName)) : benchmarks;
+
+  const medians = {} as Record<BenchmarkMetric, number>;
+  BENCHMARK_METRICS.forEach(m => { medians[m.key] = medianOf(peers.map(b => b[m.key])); });
+
+  const sorted = [...peers].sort((a, b) => {
+    const diff = sortKey === 'marketName' ? a.marketName.localeCompare(b.marketName) : a[sortKey] - b[sortKey];
+    return sortDesc ? -diff : diff;
+  });
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setSortDesc(d => !d);
+    else { setSortKey(key); setSortDesc(key !== 'marketName'); }
+  };
+
+  const allMarkets = Array.from(new Set<string>([...benchmarks.map(b => b.marketName), ...groups.flatMap(g => g.markets)])).sort();
+
+  const createGroup = () => {
+    const name = newGroupName.trim();
+    if (!name) return;
+    const group = { id: `peer-${Date.now()}`, name, markets: [] };
+    onGroupsChange([...groups, group]);
+    setNewGroupName('');
+  };
+
+  const toggleMember = (group: MarketPeerGroup, market: string) => {
+    const markets = group.markets.includes(market) ? group.markets.filter(m => m !== market) : [...group.markets, market];
+    onGroupsChange(groups.map(g => g.id === group.id ? { ...g, markets } : g));
+  };
+
+  const deleteGroup = (group: MarketPeerGroup) => {
+    if (!window.confirm(`Delete peer group "${group.name}"?`)) return;
+    onGroupsChange(groups.filter(g => g.id !== group.id));
+    if (groupId === group.id) setGroupId(ALL_MARKETS);
+  };
+
+  const header = (key: SortKey, label: string, title?: string, align = 'text-right') => (
+    <th
+      onClick={() => toggleSort(key)}
+      title={title}
+      className={`py-3 px-2 text-[10px] font-black uppercase tracking-widest cursor-pointer select-none ${align} ${sortKey === key ? 'text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+    >
+      {label}{sortKey === key ? (sortDesc ? ' ↓' : ' ↑') : ''}
+    </th>
+  );
+
+  return (
+    <div className="space-y-8 pb-12">
+      <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+        <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <h3 className="text-3xl font-black text-slate-900 tracking-tighter uppercase">Market Benchmarking</h3>
+            <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">
+              {peers.length} Markets · Percentile Within {activeGroup ? `"${activeGroup.name}"` : 'All Markets'} · Gap to Median
+            </p>
+          </div>
+          <select
+            value={activeGroup ? groupId : ALL_MARKETS}
+            onChange={(e) => setGroupId(e.target.value)}
+            className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500 uppercase tracking-wider"
+          >
+            <option value={ALL_MARKETS}>All Markets</option>
+            {groups.map(g => <option key={g.id} value={g.id}>{g.name} ({g.markets.length})</option>)}
+          </select>
+        </header>
+
+        {peers.length === 0 ? (
+          <p className="text-slate-300 font-black uppercase tracking-widest text-center py-10 text-xs">No markets with data in this group</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-slate-100">
+                  <th className="py-3 px-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">#</th>
+                  {header('marketName', 'Market', undefined, 'text-left')}
+                  {header('revenue', 'Revenue')}
+                  {BENCHMARK_METRICS.map(m => <React.Fragment key={m.key}>{header(m.key, m.label, m.hint)}</React.Fragment>)}
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((b, idx) => (
+                  <tr key={b.marketName} className="border-b border-slate-50 align-top">
+                    <td className="py-4 px-2 text-xs font-black text-slate-300">{idx + 1}</td>
+                    <td className="py-4 px-2 text-xs font-black text-slate-800 max-w-[200px] truncate">{b.marketName}</td>
+                    <td className="py-4 px-2 text-xs font-mono font-bold text-slate-500 text-right">${b.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                    {BENCHMARK_METRICS.map(m => {
+                      const p = percentileRank(peers.map(x => x[m.key]), b[m.key], m.lowerIsBetter);
+                      const gap = b[m.key] - medians[m.key];
+                      const better = m.lowerIsBetter ? gap < 0 : gap > 0;
+                      return (
+                        <td key={m.key} className="py-4 px-2 text-right min-w-[110px]">
+                          <div className="text-xs font-mono font-black text-slate-800">{b[m.key].toFixed(2)}%</div>
+                          <div className="flex items-center justify-end gap-2 mt-1">
+                            <div className="w-12 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                              <div className={`h-full ${percentileTone(p)}`} style={{ width: `${Math.max(4, p)}%` }} />
+                            </div>
+                            <span className="text-[9px] font-black text-slate-400">P{Math.round(p)}</span>
+                          </div>
+                          <div className={`text-[10px] font-mono font-bold ${gap === 0 ? 'text-slate-300' : better ? 'text-emerald-500' : 'text-red-500'}`}>
+                            {gap > 0 ? '+' : ''}{gap.toFixed(2)} vs med
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr className="bg-slate-50/60">
+                  <td />
+                  <td className="py-3 px-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">Median</td>
+                  <td className="py-3 px-2 text-xs font-mono font-bold text-slate-400 text-right">${medianOf(peers.map(b => b.revenue)).toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                  {BENCHMARK_METRICS.map(m => <td key={m.key} className="py-3 px-2 text-xs font-mono font-black text-slate-500 text-right">{medians[m.key].toFixed(2)}%</td>)}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Peer Groups */}
+      <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+        <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">Peer Groups</h3>
+            <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Group Like Sites (e.g. Office, Hospital, Factory) to Rank Them Against Each Other</p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={newGroupName}
+              onChange={(e) => setNewGroupName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') createGroup(); }}
+              placeholder="New group name..."
+              className="w-56 bg-slate-50 border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500"
+            />
+            <button onClick={createGroup} disabled={!newGroupName.trim()} className="px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-900 text-white hover:bg-indigo-600 disabled:opacity-30 transition-all">
+              Create
+            </button>
+          </div>
+        </header>
+        {groups.length === 0 ? (
+          <p className="text-slate-300 font-black uppercase tracking-widest text-center py-6 text-xs">No peer groups yet</p>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => (
+              <div key={group.id} className="p-6 rounded-3xl border border-slate-100">
+                <div className="flex justify-between items-center mb-4">
+                  <span className="text-sm font-black text-slate-900">{group.name} <span className="text-slate-400 font-bold">· {group.markets.length} markets</span></span>
+                  <button onClick={() => deleteGroup(group)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500">Delete</button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {allMarkets.map(market => {
+                    const member = group.markets.includes(market);
+                    return (
+                      <button
+                        key={market}
+                        onClick={() => toggleMember(group, market)}
+                        className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider border transition-all ${member ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-400 hover:text-slate-600'}`}
+                      >
+                        {market}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { NamingConfusionPair } from '../types';
+import { formatPeriodLabel } from '../services/periodService';
+
+interface NamingConfusionProps {
+  pairs: NamingConfusionPair[];
+}
+
+const VISIBLE_PAIRS = 12;
+
+export const NamingConfusionPanel: React.FC<NamingConfusionProps> = ({ pairs }) => {
+  const [showAll, setShowAll] = React.useState(false);
+  const explained = pairs.reduce((sum, p) => sum + p.explainedShrink, 0);
+  const visible = showAll ? pairs : pairs.slice(0, VISIBLE_PAIRS);
+
+  return (
+    <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm mb-8">
+      <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h3 className="text-2xl font-black text-slate-900 tracking-tight">Naming Confusion</h3>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Look-Alike Items Trading Variances · Same Market & Period</p>
+        </div>
+        <div className="flex gap-6 text-right">
+          <div>
+            <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Pairs</div>
+            <div className="text-2xl font-black text-slate-900">{pairs.length}</div>
+          </div>
+          <div>
+            <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Shrink Netted Out</div>
+            <div className="text-2xl font-black text-indigo-600">${explained.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
+          </div>
+        </div>
+      </header>
+
+      {pairs.length === 0 ? (
+        <p className="text-slate-300 font-black uppercase tracking-widest text-center py-6 text-xs">No mis-selection pairs detected in the current filters</p>
+      ) : (
+        <>
+          <div className="space-y-3">
+            {visible.map((pair, idx) => (
+              <div key={idx} className="grid grid-cols-12 items-center gap-4 p-4 rounded-2xl border border-slate-100 hover:bg-slate-50 transition-all">
+                <div className="col-span-12 md:col-span-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  <div className="text-slate-700 font-black truncate">{pair.marketName}</div>
+                  {formatPeriodLabel(pair.period, true)}
+                </div>
+                <div className="col-span-6 md:col-span-3 min-w-0">
+                  <div className="text-xs font-black text-emerald-600 truncate">{pair.overage.itemName}</div>
+                  <div className="text-[10px] font-mono font-bold text-slate-400">+{pair.overage.invVariance} units</div>
+                </div>
+                <div className="col-span-6 md:col-span-3 min-w-0">
+                  <div className="text-xs font-black text-red-500 truncate">{pair.shrink.itemName}</div>
+                  <div className="text-[10px] font-mono font-bold text-slate-400">{pair.shrink.invVariance} units</div>
+                </div>
+                <div className="col-span-4 md:col-span-1 text-right">
+                  <div className="text-[10px] font-black text-slate-400 uppercase">Match</div>
+                  <div className="text-xs font-black text-slate-700">{Math.round(pair.similarity * 100)}%</div>
+                </div>
+                <div className="col-span-4 md:col-span-2 text-right">
+                  <div className="text-[10px] font-black text-slate-400 uppercase">Netted</div>
+                  <div className="text-xs font-mono font-black text-indigo-600">${pair.explainedShrink.toFixed(2)}</div>
+                </div>
+                <div className="col-span-4 md:col-span-1 text-right">
+                  <div className="text-[10px] font-black text-slate-400 uppercase">Residual</div>
+                  <div className={`text-xs font-mono font-black ${pair.residualNet < 0 ? 'text-red-500' : 'text-emerald-500'}`}>{pair.residualNet.toFixed(2)}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+          {pairs.length > VISIBLE_PAIRS && (
+            <button onClick={() => setShowAll(v => !v)} className="mt-4 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+              {showAll ? 'Show Fewer' : `Show All ${pairs.length} Pairs`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
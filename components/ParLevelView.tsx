@@ -0,0 +1,166 @@
+import React from 'react';
+import { FreezerCount, ParLevel, ReorderSimulation, ShrinkRecord } from '../types';
+import { comparePeriods, formatPeriodLabel } from '../services/periodService';
+import { SegmentClassifier } from '../services/segmentService';
+import { freezerItemKey } from '../services/freezerService';
+import { setParLevel, simulateReorders } from '../services/parLevelService';
+
+interface ParLevelProps {
+  records: ShrinkRecord[];
+  levels: ParLevel[];
+  counts: FreezerCount[];
+  classifySegment: SegmentClassifier;
+  onChange: (levels: ParLevel[]) => void;
+  onImport: (file: File) => void;
+}
+
+const money = (v: number) => `$${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const SOURCE_LABELS: Record<ReorderSimulation['depotSource'], string> = {
+  count: 'Freezer Count',
+  variance: 'From Shortage',
+  none: '—'
+};
+
+export const ParLevelView: React.FC<ParLevelProps> = ({ records, levels, counts, classifySegment, onChange, onImport }) => {
+  const fileRef = React.useRef<HTMLInputElement>(null);
+
+  const periods: string[] = React.useMemo(() => {
+    return Array.from(new Set<string>(records.map(r => r.period))).sort((a, b) => comparePeriods(b, a));
+  }, [records]);
+
+  const [period, setPeriod] = React.useState(periods[0] || '');
+  const activePeriod = periods.includes(period) ? period : periods[0] || '';
+
+  const markets: string[] = React.useMemo(() => {
+    return Array.from(new Set<string>(records.filter(r => r.period === activePeriod).map(r => r.marketName))).sort();
+  }, [records, activePeriod]);
+
+  const [market, setMarket] = React.useState('');
+  const activeMarket = markets.includes(market) ? market : markets[0] || '';
+
+  const rows: ReorderSimulation[] = React.useMemo(() => {
+    const scoped = (records as ShrinkRecord[]).filter(r => r.period === activePeriod && r.marketName === activeMarket);
+    return simulateReorders(scoped, levels, counts, classifySegment)
+      .sort((a, b) => b.depotUnits - a.depotUnits || a.record.itemName.localeCompare(b.record.itemName));
+  }, [records, activePeriod, activeMarket, levels, counts, classifySegment]);
+
+  const withPar = rows.filter(row => row.par > 0);
+  const totals = withPar.reduce((t, row) => ({
+    excessUnits: t.excessUnits + row.excessUnits,
+    excessCost: t.excessCost + row.excessCost,
+    phantom: t.phantom + row.phantomShrink,
+    estimated: t.estimated + row.estimatedPhantomShrink
+  }), { excessUnits: 0, excessCost: 0, phantom: 0, estimated: 0 });
+
+  const updatePar = (r: ShrinkRecord, value: string) => {
+    const par = Math.max(0, Math.round(parseFloat(value) || 0));
+    onChange(setParLevel(levels, r.marketName, freezerItemKey(r.itemNumber, r.itemName), r.itemName, par));
+  };
+
+  return (
+    <div className="bg-white p-12 rounded-[4rem] border border-slate-200 shadow-sm">
+      <header className="mb-8 flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h3 className="text-3xl font-black text-slate-900 tracking-tighter uppercase">Par & Reorder Simulation</h3>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Next-Delivery Picks · Driver Clears Add vs. Keeps Add</p>
+        </div>
+        <div className="flex gap-3">
+          <select value={activePeriod} onChange={(e) => setPeriod(e.target.value)} className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500 uppercase tracking-wider">
+            {periods.map(p => <option key={p} value={p}>{formatPeriodLabel(p)}</option>)}
+          </select>
+          <select value={activeMarket} onChange={(e) => setMarket(e.target.value)} className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500 uppercase tracking-wider">
+            {markets.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+          <button onClick={() => fileRef.current?.click()} className="px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-900 text-white hover:bg-indigo-600 transition-all">
+            Import Pars
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".xlsx,.xls,.ods,.csv,.tsv,.tab,.txt"
+            className="hidden"
+            onChange={(e) => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ''; }}
+          />
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="p-6 rounded-3xl bg-amber-50 border border-amber-100">
+          <div className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Clears Add · Extra Units Picked</div>
+          <div className="text-2xl font-black text-amber-600 mt-1">{totals.excessUnits.toLocaleString()}</div>
+        </div>
+        <div className="p-6 rounded-3xl bg-amber-50 border border-amber-100">
+          <div className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Clears Add · Extra Pick Cost</div>
+          <div className="text-2xl font-black text-amber-600 mt-1">{money(totals.excessCost)}</div>
+        </div>
+        <div className="p-6 rounded-3xl bg-sky-50 border border-sky-100">
+          <div className="text-[10px] font-black text-sky-600 uppercase tracking-widest">Keeps Add · Phantom Shrink</div>
+          <div className="text-2xl font-black text-sky-600 mt-1">{money(totals.phantom)}</div>
+          {totals.estimated > 0 && (
+            <div className="text-[10px] font-bold text-sky-400 uppercase tracking-widest mt-1">+ {money(totals.estimated)} est. from uncounted shortages</div>
+          )}
+        </div>
+      </div>
+      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-8">
+        Totals cover the {withPar.length} of {rows.length} cold & frozen items with a par level. Import a sheet with Item, Par and optional Market columns, or type pars below.
+      </p>
+
+      {rows.length === 0 ? (
+        <p className="text-slate-300 font-black uppercase tracking-widest text-center py-10 text-xs">No cold or frozen items for this market and period</p>
+      ) : (
+        <div className="border border-slate-100 rounded-2xl overflow-hidden">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Item</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Par</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Sold</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">In Depot</th>
+                <th className="py-3 px-4 text-[10px] font-black text-amber-600 uppercase tracking-widest text-right">Pick · Clears</th>
+                <th className="py-3 px-4 text-[10px] font-black text-sky-600 uppercase tracking-widest text-right">Pick · Keeps</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Extra Picked</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Phantom Shrink</th>
+                <th className="py-3 px-4 text-[10px] font-black text-slate-300 uppercase tracking-widest text-right">Est. · Uncounted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.record.id} className="border-t border-slate-50">
+                  <td className="py-2 px-4 text-xs font-bold text-slate-700"><span className="font-mono text-slate-400 mr-2">{row.record.itemNumber}</span>{row.record.itemName}</td>
+                  <td className="py-1 px-4 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      defaultValue={row.par || ''}
+                      key={`${row.record.id}-${row.par}`}
+                      placeholder="Set"
+                      onBlur={(e) => { if (Math.round(parseFloat(e.target.value) || 0) !== row.par) updatePar(row.record, e.target.value); }}
+                      className="w-20 text-right font-mono text-xs font-bold text-slate-700 bg-slate-50 border border-slate-200 focus:border-indigo-400 rounded-lg px-2 py-1.5 outline-none"
+                    />
+                  </td>
+                  <td className="py-2 px-4 text-xs font-mono font-bold text-right text-slate-500">{row.record.soldQty || 0}</td>
+                  <td className="py-2 px-4 text-right">
+                    <div className="text-xs font-mono font-bold text-slate-700">{row.depotUnits}</div>
+                    <div className="text-[9px] font-black text-slate-300 uppercase">{SOURCE_LABELS[row.depotSource]}</div>
+                  </td>
+                  {row.par > 0 ? (
+                    <>
+                      <td className="py-2 px-4 text-xs font-mono font-black text-right text-amber-600">{row.pickIfCleared}</td>
+                      <td className="py-2 px-4 text-xs font-mono font-black text-right text-sky-600">{row.pickIfKept}</td>
+                      <td className="py-2 px-4 text-xs font-mono font-bold text-right text-slate-700">{row.excessUnits > 0 ? `+${row.excessUnits} (${money(row.excessCost)})` : '0'}</td>
+                      <td className="py-2 px-4 text-xs font-mono font-bold text-right text-slate-700">{money(row.phantomShrink)}</td>
+                      <td className="py-2 px-4 text-xs font-mono font-bold text-right text-slate-400">{row.estimatedPhantomShrink > 0 ? money(row.estimatedPhantomShrink) : '—'}</td>
+                    </>
+                  ) : (
+                    <td colSpan={5} className="py-2 px-4 text-[10px] font-black text-slate-300 uppercase tracking-widest text-right">Set a par to simulate</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React from 'react';
+import { ShrinkRecord } from '../types';
+import { normalizePeriod, isPeriodKey, currentPeriodKey } from '../services/periodService';
+import { ParsedReport } from '../services/geminiService';
+
+export interface ReviewRow {
+  key: string;
+  itemNumber: string;
+  itemName: string;
+  invVariance: string;
+  unitCost: string;
+  totalRevenue: string;
+}
+
+interface PasteImportProps {
+  onParse: (text: string) => Promise<ParsedReport>;
+  onCommit: (rows: ReviewRow[], marketName: string, period: string) => Promise<boolean>; // true once the import is committed
+}
+
+const toReviewRow = (r: Partial<ShrinkRecord>, idx: number): ReviewRow => ({
+  key: `row-${idx}-${Date.now()}`,
+  itemNumber: String(r.itemNumber ?? ''),
+  itemName: String(r.itemName ?? ''),
+  invVariance: String(r.invVariance ?? 0),
+  unitCost: String(r.unitCost ?? 0),
+  totalRevenue: String(r.totalRevenue ?? 0)
+});
+
+const EDITABLE_COLUMNS: { key: keyof Omit<ReviewRow, 'key'>; label: string; numeric: boolean }[] = [
+  { key: 'itemNumber', label: 'Item #', numeric: false },
+  { key: 'itemName', label: 'Item Name', numeric: false },
+  { key: 'invVariance', label: 'Var Qty', numeric: true },
+  { key: 'unitCost', label: 'Unit Cost', numeric: true },
+  { key: 'totalRevenue', label: 'Revenue', numeric: true }
+];
+
+const truncationWarning = (readChars: number, totalChars: number) =>
+  `Only the first ${readChars.toLocaleString()} of ${totalChars.toLocaleString()} characters were read. Rows after that are missing; paste the rest as a separate report.`;
+
+export const PasteReportImport: React.FC<PasteImportProps> = ({ onParse, onCommit }) => {
+  const [rawText, setRawText] = React.useState('');
+  const [isParsing, setIsParsing] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [truncatedAt, setTruncatedAt] = React.useState<number | null>(null);
+  const [rows, setRows] = React.useState<ReviewRow[] | null>(null);
+  const [marketName, setMarketName] = React.useState('');
+  const [period, setPeriod] = React.useState(currentPeriodKey());
+
+  const runParser = async () => {
+    if (!rawText.trim() || isParsing) return;
+    setIsParsing(true);
+    setError(null);
+    setTruncatedAt(null);
+    try {
+      const result = await onParse(rawText);
+      if (result.error) {
+        setError(result.error === 'AUTH_REQUIRED'
+          ? 'The extraction engine is offline. Check the Integrity Report.'
+          : `Extraction failed: ${result.error}`);
+        return;
+      }
+      setTruncatedAt(result.truncatedAt);
+      if (result.records.length === 0) {
+        setError('No inventory rows could be extracted from this text.');
+        return;
+      }
+      const detected = normalizePeriod(result.detectedPeriod);
+      setRows(result.records.map(toReviewRow));
+      setMarketName(result.detectedMarket || '');
+      setPeriod(isPeriodKey(detected) ? detected : currentPeriodKey());
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const updateRow = (key: string, field: keyof Omit<ReviewRow, 'key'>, value: string) => {
+    setRows(prev => prev ? prev.map(r => r.key === key ? { ...r, [field]: value } : r) : prev);
+  };
+
+  const reset = () => {
+    setRows(null);
+    setRawText('');
+    setError(null);
+    setTruncatedAt(null);
+  };
+
+  // The review step can still be cancelled, so the rows are only cleared once the import lands
+  const commit = async () => {
+    if (!rows || rows.length === 0 || !marketName.trim() || !isPeriodKey(period)) return;
+    if (await onCommit(rows, marketName.trim(), period)) reset();
+  };
+
+  return (
+    <div className="bg-white p-12 rounded-[4rem] shadow-2xl border border-slate-200 w-full max-w-5xl">
+      <header className="mb-6">
+        <h3 className="text-2xl font-black text-slate-900 tracking-tight">Paste Report Text</h3>
+        <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">PDF or Email Exports · AI Extraction with Review</p>
+      </header>
+
+      {!rows ? (
+        <>
+          <textarea
+            value={rawText}
+            onChange={(e) => setRawText(e.target.value)}
+            placeholder="Paste the text of a Seed / MyCantaloupe variance report here..."
+            className="w-full h-48 bg-slate-50 border-2 border-slate-200 rounded-3xl p-6 text-xs font-mono text-slate-700 outline-none focus:border-indigo-400 custom-scrollbar"
+          />
+          {error && <p className="mt-3 text-xs font-bold text-red-500">{error}</p>}
+          {truncatedAt !== null && <p className="mt-3 text-xs font-bold text-amber-600">{truncationWarning(truncatedAt, rawText.length)}</p>}
+          <div className="mt-6 flex justify-end">
+            <button
+              onClick={runParser}
+              disabled={!rawText.trim() || isParsing}
+              className="bg-indigo-600 text-white px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-40 transition-all shadow-xl flex items-center gap-3"
+            >
+              {isParsing && <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />}
+              {isParsing ? 'Extracting...' : 'Extract Rows'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          {truncatedAt !== null && (
+            <p className="mb-6 p-4 rounded-2xl bg-amber-50 border border-amber-200 text-xs font-bold text-amber-700">{truncationWarning(truncatedAt, rawText.length)}</p>
+          )}
+          <div className="flex flex-wrap gap-4 mb-6">
+            <label className="flex flex-col gap-1 flex-1 min-w-[220px]">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Market</span>
+              <input value={marketName} onChange={(e) => setMarketName(e.target.value)} placeholder="Required · not found in the text" className={`bg-white border ${marketName.trim() ? 'border-slate-200' : 'border-amber-300'} text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500`} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Period</span>
+              <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} className="bg-white border border-slate-200 text-slate-700 text-xs font-bold py-3 px-4 rounded-xl outline-none focus:border-indigo-500" />
+            </label>
+          </div>
+
+          <div className="max-h-[420px] overflow-y-auto custom-scrollbar border border-slate-100 rounded-2xl">
+            <table className="w-full text-left border-collapse">
+              <thead className="sticky top-0 bg-slate-50">
+                <tr>
+                  {EDITABLE_COLUMNS.map(c => (
+                    <th key={c.key} className={`py-2 px-3 text-[10px] font-black text-slate-400 uppercase tracking-widest ${c.numeric ? 'text-right' : ''}`}>{c.label}</th>
+                  ))}
+                  <th className="py-2 px-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className="border-t border-slate-50">
+                    {EDITABLE_COLUMNS.map(c => (
+                      <td key={c.key} className="py-1 px-2">
+                        <input
+                          value={row[c.key]}
+                          onChange={(e) => updateRow(row.key, c.key, e.target.value)}
+                          inputMode={c.numeric ? 'decimal' : undefined}
+                          className={`w-full bg-transparent border border-transparent hover:border-slate-200 focus:border-indigo-400 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-700 outline-none ${c.numeric ? 'text-right font-mono' : ''} ${c.numeric && isNaN(parseFloat(row[c.key])) ? 'bg-red-50 text-red-500' : ''}`}
+                        />
+                      </td>
+                    ))}
+                    <td className="py-1 px-2 text-right">
+                      <button onClick={() => setRows(prev => prev ? prev.filter(r => r.key !== row.key) : prev)} className="text-slate-300 hover:text-red-500 text-sm font-black">✕</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-6 flex justify-between items-center">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{rows.length} rows ready</span>
+            <div className="flex gap-3">
+              <button onClick={reset} className="px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Discard</button>
+              <button
+                onClick={commit}
+                disabled={rows.length === 0 || !marketName.trim() || !isPeriodKey(period)}
+                className="bg-slate-900 text-white px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-slate-800 disabled:opacity-40 transition-all shadow-xl"
+              >
+                Commit to Ledger
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React from 'react';
+import { SegmentDefinition, SegmentKind, SegmentMatchType, ShrinkRecord } from '../types';
+import { DEFAULT_SEGMENTS, FALLBACK_SEGMENT, SEGMENT_KIND_LABELS, buildSegmentClassifier, validateSegmentPattern } from '../services/segmentService';
+
+interface SegmentEditorProps {
+  segments: SegmentDefinition[];
+  records: ShrinkRecord[];
+  onSave: (segments: SegmentDefinition[]) => void;
+  onCancel: () => void;
+}
+
+const MATCH_TYPE_LABELS: Record<SegmentMatchType, string> = {
+  prefix: 'Starts With',
+  regex: 'Regex',
+  items: 'Item List'
+};
+
+const MATCH_TYPE_HINTS: Record<SegmentMatchType, string> = {
+  prefix: 'One prefix per line. Trailing spaces count, so "F " will not match "Fanta".',
+  regex: 'One case-insensitive pattern per line, tested against item number and name.',
+  items: 'One item number or exact item name per line.'
+};
+
+export const SegmentRulesEditor: React.FC<SegmentEditorProps> = ({ segments, records, onSave, onCancel }) => {
+  const [draft, setDraft] = React.useState<SegmentDefinition[]>(segments);
+
+  // Live count of ledger rows each draft segment would claim
+  const counts: Record<string, number> = React.useMemo(() => {
+    const classify = buildSegmentClassifier(draft);
+    const c: Record<string, number> = {};
+    records.forEach(r => {
+      const id = classify(r.itemNumber, r.itemName).id;
+      c[id] = (c[id] || 0) + 1;
+    });
+    return c;
+  }, [draft, records]);
+
+  const update = (idx: number, patch: Partial<SegmentDefinition>) => {
+    setDraft(prev => prev.map((s, i) => i === idx ? { ...s, ...patch } : s));
+  };
+
+  const move = (idx: number, dir: -1 | 1) => {
+    setDraft(prev => {
+      const target = idx + dir;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[target]] = [next[target], next[idx]];
+      return next;
+    });
+  };
+
+  const addSegment = () => {
+    setDraft(prev => [...prev, { id: `seg-${Date.now()}`, label: 'New Segment', kind: 'ambient', matchType: 'prefix', patterns: [] }]);
+  };
+
+  const hasErrors = draft.some(s => !s.label.trim() || s.patterns.some(p => validateSegmentPattern(s.matchType, p)));
+
+  const save = () => {
+    if (hasErrors) return;
+    onSave(draft.map(s => ({ ...s, label: s.label.trim(), patterns: s.patterns.filter(p => p.length > 0) })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[400] bg-black/50 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-200" onClick={onCancel}>
+      <div className="bg-white max-w-4xl w-full rounded-[2.5rem] shadow-2xl border border-slate-100 flex flex-col max-h-[90vh] overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <header className="p-10 pb-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <div className="text-xs font-black uppercase tracking-widest mb-2 text-indigo-500">Segment Rules</div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">Inventory Segments</h3>
+            <p className="text-slate-500 text-xs font-medium mt-2">Rules are checked top to bottom; the first match wins. These segments drive the filter, the charts and the AI prompts.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 text-2xl">✕</button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-10 space-y-4">
+          {draft.map((segment, idx) => {
+            const patternErrors = segment.patterns.map(p => validateSegmentPattern(segment.matchType, p)).filter(Boolean);
+            return (
+              <div key={segment.id} className="p-6 rounded-3xl border border-slate-200 space-y-4">
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    value={segment.label}
+                    onChange={(e) => update(idx, { label: e.target.value })}
+                    className="flex-1 min-w-[160px] bg-white border border-slate-200 text-slate-900 text-sm font-black py-2 px-4 rounded-xl outline-none focus:border-indigo-500"
+                  />
+                  <select value={segment.kind} onChange={(e) => update(idx, { kind: e.target.value as SegmentKind })} className="bg-slate-50 border border-slate-200 text-slate-700 text-[10px] font-black uppercase py-2 px-3 rounded-lg outline-none">
+                    {(Object.keys(SEGMENT_KIND_LABELS) as SegmentKind[]).map(k => <option key={k} value={k}>{SEGMENT_KIND_LABELS[k]}</option>)}
+                  </select>
+                  <select value={segment.matchType} onChange={(e) => update(idx, { matchType: e.target.value as SegmentMatchType })} className="bg-slate-50 border border-slate-200 text-slate-700 text-[10px] font-black uppercase py-2 px-3 rounded-lg outline-none">
+                    {(Object.keys(MATCH_TYPE_LABELS) as SegmentMatchType[]).map(m => <option key={m} value={m}>{MATCH_TYPE_LABELS[m]}</option>)}
+                  </select>
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{counts[segment.id] || 0} rows</span>
+                  <div className="flex gap-1">
+                    <button onClick={() => move(idx, -1)} disabled={idx === 0} className="w-8 h-8 rounded-lg bg-slate-100 text-slate-500 hover:bg-slate-200 disabled:opacity-30 text-xs font-black">↑</button>
+                    <button onClick={() => move(idx, 1)} disabled={idx === draft.length - 1} className="w-8 h-8 rounded-lg bg-slate-100 text-slate-500 hover:bg-slate-200 disabled:opacity-30 text-xs font-black">↓</button>
+                    <button onClick={() => setDraft(prev => prev.filter((_, i) => i !== idx))} className="w-8 h-8 rounded-lg bg-red-50 text-red-400 hover:bg-red-100 text-xs font-black">✕</button>
+                  </div>
+                </div>
+                <textarea
+                  value={segment.patterns.join('\n')}
+                  onChange={(e) => update(idx, { patterns: e.target.value.split('\n') })}
+                  rows={3}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-2xl p-4 text-xs font-mono text-slate-700 outline-none focus:border-indigo-400 custom-scrollbar"
+                />
+                <p className={`text-[10px] font-bold ${patternErrors.length > 0 ? 'text-red-500' : 'text-slate-400'}`}>
+                  {patternErrors.length > 0 ? patternErrors[0] : MATCH_TYPE_HINTS[segment.matchType]}
+                </p>
+              </div>
+            );
+          })}
+
+          <div className="p-6 rounded-3xl border border-dashed border-slate-200 bg-slate-50 flex justify-between items-center">
+            <div>
+              <div className="text-sm font-black text-slate-700">{FALLBACK_SEGMENT.label}</div>
+              <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Catch-all · {SEGMENT_KIND_LABELS[FALLBACK_SEGMENT.kind]}</div>
+            </div>
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{counts[FALLBACK_SEGMENT.id] || 0} rows</span>
+          </div>
+        </div>
+
+        <footer className="p-8 border-t border-slate-100 flex justify-between items-center">
+          <div className="flex gap-3">
+            <button onClick={addSegment} className="px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all">+ Add Segment</button>
+            <button onClick={() => setDraft(DEFAULT_SEGMENTS)} className="px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Reset Defaults</button>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Cancel</button>
+            <button onClick={save} disabled={hasErrors} className="bg-slate-900 text-white px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-slate-800 disabled:opacity-40 transition-all shadow-xl">Save Rules</button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+const ACCESS_TOKEN_STORAGE_KEY = 'shrink_access_token_v1';
+
+// The Worker only serves the ledger, AI and diagnostic routes to callers holding the team's ACCESS_TOKEN
+export const loadAccessToken = (): string => {
+  try {
+    return localStorage.getItem(ACCESS_TOKEN_STORAGE_KEY) || '';
+  } catch (e) { return ''; }
+};
+
+export const saveAccessToken = (token: string) => {
+  try {
+    if (token) localStorage.setItem(ACCESS_TOKEN_STORAGE_KEY, token);
+    else localStorage.removeItem(ACCESS_TOKEN_STORAGE_KEY);
+  } catch (e) { console.warn("Storage quota limit reached."); }
+};
+
+export const authHeaders = (): Record<string, string> => {
+  const token = loadAccessToken();
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+};
@@ -0,0 +1,56 @@
+import { AIAnalysisEntry, ViewFilters } from "../types";
+import { formatPeriodLabel } from "./periodService";
+import { loadAIHistoryEntries, saveAIHistoryEntries } from "./ledgerStore";
+
+// Where the history lived before it moved into the IndexedDB ledger store
+const LEGACY_AI_HISTORY_KEY = 'shrink_ai_history_v1';
+
+// Deep dives run to tens of KB each; pinned entries are kept on top of this cap
+const MAX_UNPINNED_ENTRIES = 40;
+
+export const sameFilters = (a: ViewFilters, b: ViewFilters) =>
+  a.market === b.market && a.segment === b.segment && a.category === b.category &&
+  a.periods.length === b.periods.length && a.periods.every((p, i) => p === b.periods[i]);
+
+export const describeFilters = (filters: ViewFilters) => [
+  filters.market,
+  filters.periods.length ? filters.periods.map(p => formatPeriodLabel(p, true)).join(', ') : 'All Periods',
+  filters.segment,
+  filters.category
+].join(' · ');
+
+/** Newest first; the oldest unpinned entries fall off once the cap is reached. */
+export const addAnalysisEntry = (history: AIAnalysisEntry[], entry: Omit<AIAnalysisEntry, 'id' | 'createdAt' | 'pinned'>): AIAnalysisEntry[] => {
+  const created: AIAnalysisEntry = {
+    ...entry,
+    id: `ai-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    pinned: false
+  };
+  let unpinned = 0;
+  return [created, ...history].filter(e => e.pinned || ++unpinned <= MAX_UNPINNED_ENTRIES);
+};
+
+export const toggleAnalysisPin = (history: AIAnalysisEntry[], id: string): AIAnalysisEntry[] =>
+  history.map(e => e.id === id ? { ...e, pinned: !e.pinned } : e);
+
+export const removeAnalysisEntry = (history: AIAnalysisEntry[], id: string): AIAnalysisEntry[] =>
+  history.filter(e => e.id !== id);
+
+// Deep dives outgrow the localStorage quota quickly, so the history is kept in IndexedDB
+export const loadAIHistory = async (): Promise<AIAnalysisEntry[]> => {
+  const stored = await loadAIHistoryEntries();
+  if (stored) return stored;
+  try {
+    const saved = localStorage.getItem(LEGACY_AI_HISTORY_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) { return []; }
+};
+
+/** Rejects when IndexedDB refuses the write, so the caller can tell the user. */
+export const saveAIHistory = async (history: AIAnalysisEntry[]): Promise<void> => {
+  await saveAIHistoryEntries(history);
+  try {
+    localStorage.removeItem(LEGACY_AI_HISTORY_KEY);
+  } catch (e) {}
+};
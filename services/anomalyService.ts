@@ -0,0 +1,102 @@
+import { AnomalyMethod, AnomalyScope, ShrinkRecord, VarianceAnomaly } from "../types";
+import { comparePeriods } from "./periodService";
+import { freezerItemKey } from "./freezerService";
+
+// Fewer earlier periods than this and there is no baseline worth comparing against
+export const MIN_HISTORY_PERIODS = 3;
+// Conventional cut-offs: |z| >= 3, modified z (Iglewicz & Hoaglin) >= 3.5
+export const ANOMALY_THRESHOLDS: Record<AnomalyMethod, number> = { mad: 3.5, zscore: 3 };
+export const ANOMALY_METHOD_LABELS: Record<AnomalyMethod, string> = { mad: 'Robust (Median/MAD)', zscore: 'Z-Score' };
+
+// Floors the spread so a perfectly flat history still scores a break instead of dividing by zero
+const MIN_SPREAD = 1;
+// Ignore breaks smaller than this many dollars, however unusual
+const MIN_DEVIATION = 5;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const scoreAgainst = (value: number, history: number[], method: AnomalyMethod) => {
+  if (method === 'mad') {
+    const baseline = median(history);
+    const spread = Math.max(MIN_SPREAD, median(history.map(v => Math.abs(v - baseline))));
+    return { baseline, spread, score: 0.6745 * (value - baseline) / spread };
+  }
+  const baseline = history.reduce((s, v) => s + v, 0) / history.length;
+  const variance = history.reduce((s, v) => s + (v - baseline) ** 2, 0) / Math.max(1, history.length - 1);
+  const spread = Math.max(MIN_SPREAD, Math.sqrt(variance));
+  return { baseline, spread, score: (value - baseline) / spread };
+};
+
+interface Series {
+  marketName: string;
+  itemNumber: string;
+  itemName: string;
+  byPeriod: Record<string, number>;
+}
+
+const netOf = (r: ShrinkRecord) => (r.overageGain || 0) - (r.shrinkLoss || 0);
+
+const buildSeries = (records: ShrinkRecord[], scope: AnomalyScope): Record<string, Series> => {
+  const series: Record<string, Series> = {};
+  records.forEach(r => {
+    const key = scope === 'item' ? `${r.marketName}::${freezerItemKey(r.itemNumber, r.itemName)}` : r.marketName;
+    if (!series[key]) {
+      series[key] = scope === 'item'
+        ? { marketName: r.marketName, itemNumber: r.itemNumber, itemName: r.itemName, byPeriod: {} }
+        : { marketName: r.marketName, itemNumber: '', itemName: r.marketName, byPeriod: {} };
+    }
+    series[key].byPeriod[r.period] = (series[key].byPeriod[r.period] || 0) + netOf(r);
+  });
+  return series;
+};
+
+/**
+ * Scores each item and market in `targetPeriods` against its own earlier periods in `history`.
+ * `history` should carry the same market/category/segment filters as the view, minus the period filter.
+ * Only periods in which the market reported count as history; an item missing from one of those counts as zero.
+ */
+export const detectAnomalies = (
+  history: ShrinkRecord[],
+  targetPeriods: string[],
+  method: AnomalyMethod
+): VarianceAnomaly[] => {
+  const allPeriods = Array.from(new Set(history.map(r => r.period))).sort(comparePeriods);
+  const targets = new Set(targetPeriods);
+  const marketPeriods: Record<string, Set<string>> = {};
+  history.forEach(r => { (marketPeriods[r.marketName] = marketPeriods[r.marketName] || new Set<string>()).add(r.period); });
+  const threshold = ANOMALY_THRESHOLDS[method];
+  const anomalies: VarianceAnomaly[] = [];
+
+  (['item', 'market'] as AnomalyScope[]).forEach(scope => {
+    Object.values(buildSeries(history, scope)).forEach(s => {
+      allPeriods.forEach((period, idx) => {
+        if (!targets.has(period) || s.byPeriod[period] === undefined) return;
+        const earlier = allPeriods.slice(0, idx).filter(p => marketPeriods[s.marketName].has(p));
+        if (earlier.length < MIN_HISTORY_PERIODS) return;
+
+        const value = s.byPeriod[period];
+        const { baseline, spread, score } = scoreAgainst(value, earlier.map(p => s.byPeriod[p] || 0), method);
+        if (Math.abs(score) < threshold || Math.abs(value - baseline) < MIN_DEVIATION) return;
+
+        anomalies.push({
+          scope,
+          marketName: s.marketName,
+          period,
+          itemNumber: s.itemNumber,
+          itemName: s.itemName,
+          value,
+          baseline,
+          spread,
+          score,
+          historyPeriods: earlier.length
+        });
+      });
+    });
+  });
+
+  return anomalies.sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+};
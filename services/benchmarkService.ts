@@ -0,0 +1,74 @@
+import { BenchmarkMetric, MarketBenchmark, MarketPeerGroup, ShrinkRecord } from "../types";
+import { SegmentClassifier } from "./segmentService";
+
+const PEER_GROUP_STORAGE_KEY = 'shrink_peer_groups_v1';
+
+export const BENCHMARK_METRICS: { key: BenchmarkMetric; label: string; lowerIsBetter: boolean; hint: string }[] = [
+  { key: 'shrinkPct', label: 'Shrink %', lowerIsBetter: true, hint: 'Shrink as % of revenue' },
+  { key: 'overagePct', label: 'Overage %', lowerIsBetter: true, hint: 'Overage as % of revenue' },
+  { key: 'integrity', label: 'Integrity', lowerIsBetter: false, hint: '100% minus shrink and overage as % of revenue' },
+  { key: 'receivingScore', label: 'Receiving', lowerIsBetter: true, hint: 'Absolute cold & frozen variance as % of revenue (tablet Add errors)' },
+  { key: 'processScore', label: 'Process', lowerIsBetter: true, hint: 'Ambient overage as % of revenue (counting errors)' }
+];
+
+/** Same receiving/process split as the Forensic Web radar, expressed per revenue dollar so market size doesn't dominate. */
+export const buildMarketBenchmarks = (records: ShrinkRecord[], classifySegment: SegmentClassifier): MarketBenchmark[] => {
+  const totals: Record<string, { revenue: number; shrink: number; overage: number; receiving: number; process: number }> = {};
+  records.forEach(r => {
+    const t = totals[r.marketName] = totals[r.marketName] || { revenue: 0, shrink: 0, overage: 0, receiving: 0, process: 0 };
+    t.revenue += r.totalRevenue || 0;
+    t.shrink += r.shrinkLoss || 0;
+    t.overage += r.overageGain || 0;
+    if (classifySegment(r.itemNumber, r.itemName).kind !== 'ambient') {
+      t.receiving += Math.abs(r.invVariance * (r.unitCost || 0));
+    } else {
+      t.process += r.overageGain || 0;
+    }
+  });
+
+  const asPct = (value: number, revenue: number) => revenue > 0 ? (value / revenue) * 100 : 0;
+  return Object.keys(totals).map(marketName => {
+    const t = totals[marketName];
+    return {
+      marketName,
+      revenue: t.revenue,
+      shrinkPct: asPct(t.shrink, t.revenue),
+      overagePct: asPct(t.overage, t.revenue),
+      integrity: t.revenue > 0 ? Math.max(0, 100 - asPct(t.shrink + t.overage, t.revenue)) : 100,
+      receivingScore: asPct(t.receiving, t.revenue),
+      processScore: asPct(t.process, t.revenue)
+    };
+  });
+};
+
+export const medianOf = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/** Share of peers this value beats (ties count half), 100 = best in group. A lone market sits at 50. */
+export const percentileRank = (values: number[], value: number, lowerIsBetter: boolean): number => {
+  if (values.length <= 1) return 50;
+  let beaten = 0;
+  values.forEach(v => {
+    if (v === value) beaten += 0.5;
+    else if (lowerIsBetter ? value < v : value > v) beaten += 1;
+  });
+  // Remove the market's own half-tie
+  return ((beaten - 0.5) / (values.length - 1)) * 100;
+};
+
+export const loadPeerGroups = (): MarketPeerGroup[] => {
+  try {
+    const saved = localStorage.getItem(PEER_GROUP_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) { return []; }
+};
+
+export const savePeerGroups = (groups: MarketPeerGroup[]) => {
+  try {
+    localStorage.setItem(PEER_GROUP_STORAGE_KEY, JSON.stringify(groups));
+  } catch (e) { console.warn("Storage quota limit reached."); }
+};
@@ -0,0 +1,74 @@
+import { ShrinkRecord } from "../types";
+import { CATEGORIES } from "../constants";
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+const OVERRIDES_STORAGE_KEY = 'shrink_category_overrides_v1';
+
+// Item-number prefixes used in Seed for fresh food programs
+const PREFIX_RULES: { prefix: RegExp; category: string }[] = [
+  { prefix: /^KF/i, category: 'Deli' },
+  { prefix: /^F\s/i, category: 'Deli' },
+  { prefix: /^B\s/i, category: 'Bakery' }
+];
+
+// Checked in order, so more specific groups (e.g. chocolate milk → Dairy) win over broad ones (chocolate → Snacks)
+const KEYWORD_RULES: { category: string; keywords: string[] }[] = [
+  { category: 'Deli', keywords: ['sandwich', 'wrap', 'burger', 'cheeseburger', 'sub', 'burrito', 'pizza', 'panini', 'sushi', 'salad', 'bowl', 'hot dog', 'quesadilla', 'hoagie'] },
+  { category: 'Bakery', keywords: ['muffin', 'donut', 'doughnut', 'croissant', 'bagel', 'danish', 'pastry', 'brownie', 'bread', 'scone', 'cinnamon roll'] },
+  { category: 'Dairy', keywords: ['milk', 'yogurt', 'yoghurt', 'creamer', 'string cheese', 'cottage', 'parfait', 'kefir'] },
+  { category: 'Beverages', keywords: ['soda', 'coke', 'cola', 'pepsi', 'sprite', 'fanta', 'dew', 'water', 'juice', 'tea', 'coffee', 'energy', 'red bull', 'monster', 'gatorade', 'powerade', 'lemonade', 'kombucha', 'drink', 'seltzer'] },
+  { category: 'Produce', keywords: ['apple', 'banana', 'orange', 'grapes', 'fruit', 'berries', 'veggie', 'vegetable', 'carrot', 'celery', 'produce'] },
+  { category: 'Snacks', keywords: ['chips', 'candy', 'bar', 'cookie', 'cookies', 'cracker', 'crackers', 'nuts', 'pretzel', 'pretzels', 'popcorn', 'jerky', 'gum', 'mints', 'chocolate', 'snack', 'trail mix', 'doritos', 'cheetos', 'lays'] }
+];
+
+const KEYWORD_PATTERNS = KEYWORD_RULES.map(rule => ({
+  category: rule.category,
+  pattern: new RegExp(`\\b(${rule.keywords.map(k => k.replace(/\s+/g, '\\s+')).join('|')})\\b`, 'i')
+}));
+
+export const ALL_CATEGORIES = [...CATEGORIES, UNCATEGORIZED];
+
+/** Override table key: the item number when present, otherwise the item name. */
+export const categoryOverrideKey = (itemNumber: string, itemName: string): string => {
+  return String(itemNumber || itemName || '').trim().toLowerCase();
+};
+
+export const classifyItem = (itemNumber: string, itemName: string, overrides: Record<string, string>): string => {
+  const override = overrides[categoryOverrideKey(itemNumber, itemName)];
+  if (override) return override;
+
+  const prefixHit = PREFIX_RULES.find(rule => rule.prefix.test(itemNumber) || rule.prefix.test(itemName));
+  if (prefixHit) return prefixHit.category;
+
+  const keywordHit = KEYWORD_PATTERNS.find(rule => rule.pattern.test(itemName));
+  return keywordHit ? keywordHit.category : UNCATEGORIZED;
+};
+
+/**
+ * Re-run classification over the ledger. Returns the same array when nothing changed so
+ * callers can hand it straight to setState without triggering a save.
+ */
+export const applyCategories = (records: ShrinkRecord[], overrides: Record<string, string>): ShrinkRecord[] => {
+  let changed = false;
+  const next = records.map(r => {
+    const category = classifyItem(r.itemNumber, r.itemName, overrides);
+    if (category === r.category) return r;
+    changed = true;
+    return { ...r, category };
+  });
+  return changed ? next : records;
+};
+
+export const loadCategoryOverrides = (): Record<string, string> => {
+  try {
+    const saved = localStorage.getItem(OVERRIDES_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) { return {}; }
+};
+
+export const saveCategoryOverrides = (overrides: Record<string, string>) => {
+  try {
+    localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (e) { console.warn("Storage quota limit reached."); }
+};
@@ -0,0 +1,90 @@
+import { ShrinkRecord } from "../types";
+import { authHeaders } from "./accessTokenService";
+
+const LEDGER_ROUTES = {
+  LEDGER: '/api/ledger',
+  IMPORT: '/api/ledger/import'
+};
+
+export interface CloudLedgerSnapshot {
+  records: ShrinkRecord[];
+  revision: number;
+  updatedAt: string | null;
+}
+
+// What changed between two copies of the ledger, in the shape the import route accepts
+export interface LedgerChanges {
+  records: ShrinkRecord[];
+  deletedIds: string[];
+}
+
+export interface CloudWriteResult {
+  revision: number;
+  updatedAt: string | null;
+  count: number;
+}
+
+// Failures surface as sentinel messages ("LEDGER_UNAVAILABLE", "LEDGER_CONFLICT", "AUTH_REQUIRED"), as in geminiService
+const ledgerRequest = async (route: string, init?: RequestInit): Promise<any> => {
+  let res: Response;
+  try {
+    res = await fetch(route, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...authHeaders(), ...(init?.headers || {}) }
+    });
+  } catch (e) {
+    throw new Error("LEDGER_UNAVAILABLE");
+  }
+
+  const payload = await res.json().catch(() => null);
+  if (res.status === 401 || res.status === 403) throw new Error("AUTH_REQUIRED");
+  if (res.status === 409) throw new Error("LEDGER_CONFLICT");
+  if (res.status === 503 || res.status === 404 || !payload) throw new Error("LEDGER_UNAVAILABLE");
+  if (!res.ok) throw new Error(payload.error || `${res.status} ${res.statusText}`);
+  return payload;
+};
+
+export const fetchCloudLedger = async (): Promise<CloudLedgerSnapshot> => {
+  const data = await ledgerRequest(LEDGER_ROUTES.LEDGER, { method: 'GET' });
+  return {
+    records: Array.isArray(data.records) ? data.records : [],
+    revision: data.revision || 0,
+    updatedAt: data.updatedAt || null
+  };
+};
+
+/** Replace the shared ledger. Rejected with LEDGER_CONFLICT if a teammate wrote since `baseRevision`. */
+export const pushCloudLedger = async (records: ShrinkRecord[], baseRevision: number): Promise<CloudWriteResult> => {
+  return ledgerRequest(LEDGER_ROUTES.LEDGER, {
+    method: 'PUT',
+    body: JSON.stringify({ records, baseRevision })
+  });
+};
+
+/** Upsert records into the shared ledger by id and drop `deletedIds`, leaving everything else in place. */
+export const importToCloudLedger = async (records: ShrinkRecord[], deletedIds: string[] = []): Promise<CloudWriteResult> => {
+  return ledgerRequest(LEDGER_ROUTES.IMPORT, {
+    method: 'POST',
+    body: JSON.stringify({ records, deletedIds })
+  });
+};
+
+/**
+ * Records added or replaced in `next` since `base`, plus the ids it dropped. Ledger updates
+ * replace records rather than mutating them, so comparing references is enough.
+ */
+export const diffLedger = (base: ShrinkRecord[], next: ShrinkRecord[]): LedgerChanges => {
+  const baseById = new Map(base.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  return {
+    records: next.filter(r => baseById.get(r.id) !== r),
+    deletedIds: base.filter(r => !nextIds.has(r.id)).map(r => r.id)
+  };
+};
+
+/** Replay changes onto another copy; hands back `records` itself when there is nothing to apply. */
+export const applyLedgerChanges = (records: ShrinkRecord[], changes: LedgerChanges): ShrinkRecord[] => {
+  if (changes.records.length === 0 && changes.deletedIds.length === 0) return records;
+  const replaced = new Set([...changes.deletedIds, ...changes.records.map(r => r.id)]);
+  return [...records.filter(r => !replaced.has(r.id)), ...changes.records];
+};
@@ -0,0 +1,91 @@
+import { PeriodComparison, PeriodDelta, PeriodMetrics, ShrinkRecord, TopListChange } from "../types";
+import { SegmentClassifier } from "./segmentService";
+
+// Matches the dashboard leaderboards closely enough for review meetings without becoming a full item dump
+export const TOP_LIST_SIZE = 10;
+
+const metricsOf = (records: ShrinkRecord[]): PeriodMetrics => {
+  const revenue = records.reduce((s, r) => s + (r.totalRevenue || 0), 0);
+  const shrink = records.reduce((s, r) => s + (r.shrinkLoss || 0), 0);
+  const overage = records.reduce((s, r) => s + (r.overageGain || 0), 0);
+  return {
+    revenue,
+    shrink,
+    overage,
+    net: overage - shrink,
+    shrinkPct: revenue > 0 ? (shrink / revenue) * 100 : 0,
+    overagePct: revenue > 0 ? (overage / revenue) * 100 : 0,
+    integrity: revenue > 0 ? Math.max(0, (1 - (shrink + overage) / revenue) * 100) : 100
+  };
+};
+
+const groupBy = (records: ShrinkRecord[], keyOf: (r: ShrinkRecord) => string): Record<string, ShrinkRecord[]> => {
+  const groups: Record<string, ShrinkRecord[]> = {};
+  records.forEach(r => { const key = keyOf(r); (groups[key] = groups[key] || []).push(r); });
+  return groups;
+};
+
+const deltasBy = (a: ShrinkRecord[], b: ShrinkRecord[], keyOf: (r: ShrinkRecord) => string): PeriodDelta[] => {
+  const groupsA = groupBy(a, keyOf);
+  const groupsB = groupBy(b, keyOf);
+  const keys = Array.from(new Set([...Object.keys(groupsA), ...Object.keys(groupsB)]));
+  return keys.map(key => ({
+    key,
+    label: key,
+    a: groupsA[key] ? metricsOf(groupsA[key]) : null,
+    b: groupsB[key] ? metricsOf(groupsB[key]) : null
+  }));
+};
+
+export const netChange = (d: PeriodDelta) => (d.b?.net || 0) - (d.a?.net || 0);
+
+/**
+ * New: entered period B's top list. Dropped: left period A's. Flipped: on either list
+ * but its net variance changed sign between the periods (shrink became overage or vice versa).
+ */
+const topListChanges = (items: PeriodDelta[], valueOf: (m: PeriodMetrics) => number): TopListChange[] => {
+  const ranked = (side: 'a' | 'b') => items
+    .filter(d => d[side] && valueOf(d[side]!) > 0)
+    .sort((x, y) => valueOf(y[side]!) - valueOf(x[side]!))
+    .slice(0, TOP_LIST_SIZE)
+    .map(d => d.key);
+  const topA = ranked('a');
+  const topB = ranked('b');
+
+  const changes: TopListChange[] = [];
+  items.forEach(d => {
+    const rankA = topA.indexOf(d.key);
+    const rankB = topB.indexOf(d.key);
+    if (rankA === -1 && rankB === -1) return;
+    const netA = d.a?.net || 0;
+    const netB = d.b?.net || 0;
+    const flipped = netA !== 0 && netB !== 0 && Math.sign(netA) !== Math.sign(netB);
+    const kind = flipped ? 'flipped' : rankA === -1 ? 'new' : rankB === -1 ? 'dropped' : null;
+    if (!kind) return;
+    changes.push({ itemName: d.label, kind, rankA: rankA === -1 ? null : rankA + 1, rankB: rankB === -1 ? null : rankB + 1, netA, netB });
+  });
+
+  const order = { flipped: 0, new: 1, dropped: 2 };
+  return changes.sort((x, y) => order[x.kind] - order[y.kind] || (x.rankB ?? x.rankA ?? 0) - (y.rankB ?? y.rankA ?? 0));
+};
+
+/** Compares two periods within whatever records the caller has already filtered (market, category, segment). */
+export const comparePeriodPair = (
+  records: ShrinkRecord[],
+  periodA: string,
+  periodB: string,
+  classifySegment: SegmentClassifier
+): PeriodComparison => {
+  const a = records.filter(r => r.period === periodA);
+  const b = records.filter(r => r.period === periodB);
+  const items = deltasBy(a, b, r => r.itemName);
+
+  return {
+    totals: { key: 'total', label: 'All Selected', a: a.length ? metricsOf(a) : null, b: b.length ? metricsOf(b) : null },
+    markets: deltasBy(a, b, r => r.marketName).sort((x, y) => x.label.localeCompare(y.label)),
+    segments: deltasBy(a, b, r => classifySegment(r.itemNumber, r.itemName).label).sort((x, y) => x.label.localeCompare(y.label)),
+    items: items.sort((x, y) => Math.abs(netChange(y)) - Math.abs(netChange(x))),
+    topShrink: topListChanges(items, m => m.shrink),
+    topOverage: topListChanges(items, m => m.overage)
+  };
+};
@@ -0,0 +1,84 @@
+import { DriverAssignment, DriverScorecard, ShrinkRecord } from "../types";
+import { DRIVERS } from "../constants";
+import { comparePeriods } from "./periodService";
+import { SegmentClassifier } from "./segmentService";
+
+export const UNASSIGNED_DRIVER = 'Unassigned';
+
+const ASSIGNMENTS_STORAGE_KEY = 'shrink_driver_assignments_v1';
+
+export type DriverLookup = (marketName: string, period: string) => string;
+
+/**
+ * Resolve the driver for a market in a period. Routes rarely change month to month, so a
+ * period without its own assignment inherits the most recent earlier one.
+ */
+export const buildDriverLookup = (assignments: DriverAssignment[]): DriverLookup => {
+  const byMarket: Record<string, DriverAssignment[]> = {};
+  assignments.forEach(a => {
+    if (!a.driver) return;
+    (byMarket[a.marketName] = byMarket[a.marketName] || []).push(a);
+  });
+  Object.values(byMarket).forEach(list => list.sort((a, b) => comparePeriods(b.period, a.period)));
+
+  return (marketName, period) => {
+    const hit = byMarket[marketName]?.find(a => comparePeriods(a.period, period) <= 0);
+    return hit ? hit.driver : UNASSIGNED_DRIVER;
+  };
+};
+
+/** Replace one market's assignment for a period; an empty driver clears it. */
+export const setDriverAssignment = (assignments: DriverAssignment[], period: string, marketName: string, driver: string): DriverAssignment[] => {
+  const rest = assignments.filter(a => !(a.period === period && a.marketName === marketName));
+  return driver.trim() ? [...rest, { period, marketName, driver: driver.trim() }] : rest;
+};
+
+/** The default roster plus anyone already named in an assignment. */
+export const driverRoster = (assignments: DriverAssignment[]): string[] => {
+  return Array.from(new Set([...DRIVERS, ...assignments.map(a => a.driver)])).sort();
+};
+
+export const buildDriverScorecards = (records: ShrinkRecord[], lookup: DriverLookup, classifySegment: SegmentClassifier): DriverScorecard[] => {
+  const cards: Record<string, DriverScorecard & { marketSet: Set<string> }> = {};
+
+  records.forEach(r => {
+    const driver = lookup(r.marketName, r.period);
+    if (!cards[driver]) {
+      cards[driver] = {
+        driver, markets: [], marketSet: new Set(), revenue: 0, shrink: 0, overage: 0,
+        shrinkPct: 0, overagePct: 0, integrity: 100, missedAdds: 0, frozenShrink: 0
+      };
+    }
+    const card = cards[driver];
+    const kind = classifySegment(r.itemNumber, r.itemName).kind;
+
+    card.marketSet.add(r.marketName);
+    card.revenue += r.totalRevenue || 0;
+    card.shrink += r.shrinkLoss || 0;
+    card.overage += r.overageGain || 0;
+    if (kind !== 'ambient') card.missedAdds += r.overageGain || 0;
+    if (kind === 'frozen') card.frozenShrink += r.shrinkLoss || 0;
+  });
+
+  return Object.values(cards).map(({ marketSet, ...card }) => ({
+    ...card,
+    markets: Array.from(marketSet).sort(),
+    shrinkPct: card.revenue > 0 ? (card.shrink / card.revenue) * 100 : 0,
+    overagePct: card.revenue > 0 ? (card.overage / card.revenue) * 100 : 0,
+    // Same integrity formula as the dashboard KPI: both shrink and overage count as error
+    integrity: card.revenue > 0 ? Number(Math.max(0, (1 - (card.shrink + card.overage) / card.revenue) * 100).toFixed(2)) : 100
+  })).sort((a, b) => b.shrink - a.shrink);
+};
+
+export const loadDriverAssignments = (): DriverAssignment[] => {
+  try {
+    const saved = localStorage.getItem(ASSIGNMENTS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) { return []; }
+};
+
+export const saveDriverAssignments = (assignments: DriverAssignment[]) => {
+  try {
+    localStorage.setItem(ASSIGNMENTS_STORAGE_KEY, JSON.stringify(assignments));
+  } catch (e) { console.warn("Storage quota limit reached."); }
+};
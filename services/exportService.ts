@@ -0,0 +1,116 @@
+import * as XLSX from 'xlsx';
+import { ShrinkRecord, ViewFilters, ForensicStats } from "../types";
+import { MarketVarianceImpact } from "./forensicChartService";
+import { formatPeriodLabel } from "./periodService";
+
+// Deeper than the dashboard leaderboards; clients want the long tail too
+const TOP_EXPORT_ITEMS = 50;
+
+const round2 = (v: number) => Number((v || 0).toFixed(2));
+
+const withWidths = (sheet: XLSX.WorkSheet, widths: number[]): XLSX.WorkSheet => {
+  sheet['!cols'] = widths.map(wch => ({ wch }));
+  return sheet;
+};
+
+const summarySheet = (stats: ForensicStats, filters: ViewFilters) => withWidths(XLSX.utils.aoa_to_sheet([
+  ['The Shrink Shrink · Forensic Export'],
+  ['Generated', new Date().toLocaleString()],
+  [],
+  ['Filters'],
+  ['Periods', filters.periods.length ? filters.periods.map(p => formatPeriodLabel(p)).join(', ') : 'All Periods'],
+  ['Market', filters.market],
+  ['Segment', filters.segment],
+  ['Category', filters.category],
+  [],
+  ['KPIs'],
+  ['Revenue ($)', round2(stats.totalRevenue)],
+  ['Gross Shrink ($)', round2(stats.totalShrink)],
+  ['  Real Loss ($)', round2(stats.realShrink)],
+  ['  Phantom Shrink ($)', round2(stats.phantomShrink)],
+  ['Gross Overage ($)', round2(stats.totalOverage)],
+  ['Net Variance ($)', round2(stats.netVariance)],
+  ['Shrink % of Revenue', round2(stats.shrinkPct)],
+  ['Overage % of Revenue', round2(stats.overagePct)],
+  ['Net % of Revenue', round2(stats.netPct)],
+  ['Integrity (%)', stats.accuracy],
+  ['Records', stats.count]
+]), [24, 60]);
+
+// The dashboard's Variance Balance split (real loss, phantom, overage), every market rather than the top 10
+const marketsSheet = (impact: MarketVarianceImpact[]) => {
+  const rows = impact.map(m => ({
+    'Market': m.name,
+    'Revenue ($)': round2(m.revenue),
+    'Real Loss ($)': round2(m.shortage),
+    'Phantom Shrink ($)': round2(m.phantom),
+    'Overage ($)': round2(m.overage),
+    'Net ($)': round2(m.overage - m.shortage - m.phantom),
+    'Shrink %': m.revenue > 0 ? round2(((m.shortage + m.phantom) / m.revenue) * 100) : 0,
+    'Overage %': m.revenue > 0 ? round2((m.overage / m.revenue) * 100) : 0
+  }));
+  const header = ['Market', 'Revenue ($)', 'Real Loss ($)', 'Phantom Shrink ($)', 'Overage ($)', 'Net ($)', 'Shrink %', 'Overage %'];
+  return withWidths(XLSX.utils.json_to_sheet(rows, { header }), [28, 14, 14, 16, 14, 14, 10, 10]);
+};
+
+const topItemsSheet = (records: ShrinkRecord[], type: 'shrink' | 'overage') => {
+  const items: Record<string, { value: number; qty: number; markets: Set<string> }> = {};
+  records.forEach(r => {
+    const value = type === 'shrink' ? r.shrinkLoss : r.overageGain;
+    if (!(value > 0)) return;
+    const item = items[r.itemName] = items[r.itemName] || { value: 0, qty: 0, markets: new Set<string>() };
+    item.value += value;
+    item.qty += r.invVariance;
+    item.markets.add(r.marketName);
+  });
+  const valueColumn = type === 'shrink' ? 'Shrink ($)' : 'Overage ($)';
+  const rows = Object.entries(items)
+    .sort(([, a], [, b]) => b.value - a.value)
+    .slice(0, TOP_EXPORT_ITEMS)
+    .map(([name, item], idx) => ({
+      'Rank': idx + 1,
+      'Item': name,
+      [valueColumn]: round2(item.value),
+      'Variance Qty': item.qty,
+      'Markets': Array.from(item.markets).sort().join(', ')
+    }));
+  const header = ['Rank', 'Item', valueColumn, 'Variance Qty', 'Markets'];
+  return withWidths(XLSX.utils.json_to_sheet(rows, { header }), [6, 36, 14, 12, 48]);
+};
+
+const detailSheet = (records: ShrinkRecord[]) => {
+  const rows = records.map(r => ({
+    'Period': r.period,
+    'Market': r.marketName,
+    'Item #': r.itemNumber,
+    'Item Name': r.itemName,
+    'Category': r.category,
+    'Variance Qty': r.invVariance,
+    'Unit Cost ($)': round2(r.unitCost),
+    'Sold Qty': r.soldQty,
+    'Sale Price ($)': round2(r.salePrice),
+    'Revenue ($)': round2(r.totalRevenue),
+    'Shrink ($)': round2(r.shrinkLoss),
+    'Overage ($)': round2(r.overageGain),
+    'Net ($)': round2(r.netVarianceValue)
+  }));
+  const header = ['Period', 'Market', 'Item #', 'Item Name', 'Category', 'Variance Qty', 'Unit Cost ($)', 'Sold Qty', 'Sale Price ($)', 'Revenue ($)', 'Shrink ($)', 'Overage ($)', 'Net ($)'];
+  return withWidths(XLSX.utils.json_to_sheet(rows, { header }), [10, 24, 12, 36, 14, 12, 12, 10, 12, 12, 12, 12, 12]);
+};
+
+/**
+ * Writes the filtered view as a workbook and triggers the browser download. `marketImpact` is the
+ * dashboard's per-market aggregation (see buildVarianceImpact), so the sheet matches the chart.
+ */
+export const exportForensicWorkbook = (records: ShrinkRecord[], stats: ForensicStats, marketImpact: MarketVarianceImpact[], filters: ViewFilters): string => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, summarySheet(stats, filters), 'Summary');
+  XLSX.utils.book_append_sheet(workbook, marketsSheet(marketImpact), 'Markets');
+  XLSX.utils.book_append_sheet(workbook, topItemsSheet(records, 'shrink'), 'Top Shrink');
+  XLSX.utils.book_append_sheet(workbook, topItemsSheet(records, 'overage'), 'Top Overage');
+  XLSX.utils.book_append_sheet(workbook, detailSheet(records), 'Detail');
+
+  const fileName = `shrink-forensics-${new Date().toISOString().slice(0, 10)}.xlsx`;
+  XLSX.writeFile(workbook, fileName);
+  return fileName;
+};
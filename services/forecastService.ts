@@ -0,0 +1,122 @@
+import { ForecastMetric, ForecastPoint, SeriesForecast, ShrinkRecord } from "../types";
+import { comparePeriods, parsePeriodKey, shiftPeriod } from "./periodService";
+import { SegmentClassifier } from "./segmentService";
+
+export const MAX_FORECAST_HORIZON = 3;
+// A regression line through two points has no residuals to size a band from
+export const MIN_FORECAST_PERIODS = 3;
+
+export const FORECAST_METRIC_LABELS: Record<ForecastMetric, string> = {
+  shrinkPct: 'Shrink %',
+  overagePct: 'Overage %',
+  integrity: 'Integrity %'
+};
+
+const METRICS = Object.keys(FORECAST_METRIC_LABELS) as ForecastMetric[];
+
+// Two-sided 95% Student t critical values for 1..10 degrees of freedom; normal beyond that
+const T_95 = [12.71, 4.30, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26, 2.23];
+const tCritical = (df: number) => T_95[df - 1] || 1.96;
+
+export interface MetricPoint {
+  period: string;
+  shrinkPct: number;
+  overagePct: number;
+  integrity: number;
+}
+
+/** Per-period shrink %, overage % and integrity, using the dashboard KPI formulas. */
+export const periodMetricSeries = (records: ShrinkRecord[]): MetricPoint[] => {
+  const totals: Record<string, { revenue: number; shrink: number; overage: number }> = {};
+  records.forEach(r => {
+    if (!parsePeriodKey(r.period)) return;
+    const t = totals[r.period] = totals[r.period] || { revenue: 0, shrink: 0, overage: 0 };
+    t.revenue += r.totalRevenue || 0;
+    t.shrink += r.shrinkLoss || 0;
+    t.overage += r.overageGain || 0;
+  });
+
+  return Object.keys(totals).sort(comparePeriods).map(period => {
+    const { revenue, shrink, overage } = totals[period];
+    return {
+      period,
+      shrinkPct: revenue > 0 ? (shrink / revenue) * 100 : 0,
+      overagePct: revenue > 0 ? (overage / revenue) * 100 : 0,
+      integrity: revenue > 0 ? Math.max(0, (1 - (shrink + overage) / revenue) * 100) : 100
+    };
+  });
+};
+
+const monthIndex = (period: string) => {
+  const parsed = parsePeriodKey(period)!;
+  return parsed.year * 12 + parsed.month - 1;
+};
+
+const clamp = (v: number, metric: ForecastMetric) => {
+  const bounded = Math.max(0, v);
+  return metric === 'integrity' ? Math.min(100, bounded) : bounded;
+};
+
+/**
+ * Least-squares trend over calendar months (gaps keep their true spacing), projected `horizon`
+ * months past the last period with a 95% prediction interval.
+ */
+export const forecastMetric = (series: MetricPoint[], metric: ForecastMetric, horizon: number): ForecastPoint[] => {
+  const n = series.length;
+  if (n < MIN_FORECAST_PERIODS) return [];
+
+  const xs = series.map(p => monthIndex(p.period));
+  const ys = series.map(p => p[metric]);
+  const xMean = xs.reduce((s, x) => s + x, 0) / n;
+  const yMean = ys.reduce((s, y) => s + y, 0) / n;
+  const sxx = xs.reduce((s, x) => s + (x - xMean) ** 2, 0);
+  const slope = sxx > 0 ? xs.reduce((s, x, i) => s + (x - xMean) * (ys[i] - yMean), 0) / sxx : 0;
+  const intercept = yMean - slope * xMean;
+
+  const sse = xs.reduce((s, x, i) => s + (ys[i] - (intercept + slope * x)) ** 2, 0);
+  const stdError = Math.sqrt(sse / (n - 2));
+  const t = tCritical(n - 2);
+
+  const last = series[n - 1].period;
+  return Array.from({ length: Math.min(horizon, MAX_FORECAST_HORIZON) }, (_, i) => {
+    const period = shiftPeriod(last, i + 1);
+    const x = monthIndex(period);
+    const value = intercept + slope * x;
+    const margin = t * stdError * Math.sqrt(1 + 1 / n + (sxx > 0 ? (x - xMean) ** 2 / sxx : 0));
+    return {
+      period,
+      value: Number(clamp(value, metric).toFixed(2)),
+      lower: Number(clamp(value - margin, metric).toFixed(2)),
+      upper: Number(clamp(value + margin, metric).toFixed(2))
+    };
+  });
+};
+
+const buildSeriesForecast = (scope: SeriesForecast['scope'], label: string, records: ShrinkRecord[], horizon: number): SeriesForecast => {
+  const series = periodMetricSeries(records);
+  const last = series[series.length - 1];
+  const latest = {} as Record<ForecastMetric, number>;
+  const forecasts = {} as Record<ForecastMetric, ForecastPoint[]>;
+  METRICS.forEach(metric => {
+    latest[metric] = last ? Number(last[metric].toFixed(2)) : 0;
+    forecasts[metric] = forecastMetric(series, metric, horizon);
+  });
+  return { scope, label, historyPeriods: series.length, latest, forecasts };
+};
+
+/** Forecasts for the whole selection, then each market and each segment within it. */
+export const buildForecasts = (records: ShrinkRecord[], classifySegment: SegmentClassifier, horizon: number): SeriesForecast[] => {
+  const byMarket: Record<string, ShrinkRecord[]> = {};
+  const bySegment: Record<string, ShrinkRecord[]> = {};
+  records.forEach(r => {
+    (byMarket[r.marketName] = byMarket[r.marketName] || []).push(r);
+    const segment = classifySegment(r.itemNumber, r.itemName).label;
+    (bySegment[segment] = bySegment[segment] || []).push(r);
+  });
+
+  return [
+    buildSeriesForecast('total', 'All Selected', records, horizon),
+    ...Object.keys(byMarket).sort().map(m => buildSeriesForecast('market', m, byMarket[m], horizon)),
+    ...Object.keys(bySegment).sort().map(s => buildSeriesForecast('segment', s, bySegment[s], horizon))
+  ];
+};
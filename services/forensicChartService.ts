@@ -0,0 +1,195 @@
+import { ShrinkRecord } from "../types";
+import { comparePeriods, formatPeriodLabel } from "./periodService";
+import { SegmentClassifier } from "./segmentService";
+
+// Shared by the dashboard charts and the printable audit report so both tell the same story
+
+export interface TrendPoint {
+  period: string;
+  label: string;
+  shrink: number;
+  phantom: number;
+  revenue: number;
+  net: number;
+  shrinkRate: number;
+  phantomRate: number;
+}
+
+export interface MarketVarianceImpact {
+  name: string;
+  revenue: number;
+  shortage: number;
+  phantom: number;
+  overage: number;
+}
+
+export interface LeaderboardEntry {
+  name: string;
+  value: number;
+}
+
+export interface ForensicRadar {
+  data: any[];
+  keys: { key: string; name: string; color: string }[];
+}
+
+/** Month over month shrink and phantom rates, oldest period first. */
+export const buildTrendSeries = (data: ShrinkRecord[], phantomShrinkById: Record<string, number>): TrendPoint[] => {
+  const periods: Record<string, { period: string; label: string; shrink: number; phantom: number; revenue: number; net: number }> = {};
+  data.forEach(r => {
+    if (!periods[r.period]) periods[r.period] = { period: r.period, label: formatPeriodLabel(r.period, true), shrink: 0, phantom: 0, revenue: 0, net: 0 };
+
+    periods[r.period].revenue += r.totalRevenue || 0;
+    periods[r.period].shrink += r.shrinkLoss || 0;
+    periods[r.period].phantom += phantomShrinkById[r.id] || 0;
+    periods[r.period].net += (r.overageGain || 0) - (r.shrinkLoss || 0);
+  });
+
+  return Object.values(periods)
+    .sort((a, b) => comparePeriods(a.period, b.period))
+    .map(p => ({
+      ...p,
+      shrinkRate: p.revenue > 0 ? Number(((p.shrink / p.revenue) * 100).toFixed(2)) : 0,
+      phantomRate: p.revenue > 0 ? Number(((p.phantom / p.revenue) * 100).toFixed(2)) : 0
+    }));
+};
+
+/** Shortage vs overage ($) for the markets with the largest combined variance. */
+export const buildVarianceImpact = (data: ShrinkRecord[], phantomShrinkById: Record<string, number>, limit = 10): MarketVarianceImpact[] => {
+  // Shortage is real loss only; freezer-explained shrink stacks on top as phantom
+  const markets: Record<string, MarketVarianceImpact> = {};
+  data.forEach(r => {
+    if (!markets[r.marketName]) markets[r.marketName] = { name: r.marketName, revenue: 0, shortage: 0, phantom: 0, overage: 0 };
+    const phantom = phantomShrinkById[r.id] || 0;
+    markets[r.marketName].revenue += r.totalRevenue || 0;
+    markets[r.marketName].shortage += (r.shrinkLoss || 0) - phantom;
+    markets[r.marketName].phantom += phantom;
+    markets[r.marketName].overage += r.overageGain || 0;
+  });
+  return Object.values(markets)
+    .sort((a, b) => (b.shortage + b.phantom + b.overage) - (a.shortage + a.phantom + a.overage))
+    .slice(0, limit);
+};
+
+export const buildItemLeaderboards = (data: ShrinkRecord[], size = 8): { topShrink: LeaderboardEntry[]; topOverage: LeaderboardEntry[] } => {
+  const shrinkMap: Record<string, number> = {};
+  const overageMap: Record<string, number> = {};
+
+  data.forEach(r => {
+    const shrinkVal = r.shrinkLoss || 0;
+    const overageVal = r.overageGain || 0;
+
+    if (shrinkVal > 0) shrinkMap[r.itemName] = (shrinkMap[r.itemName] || 0) + shrinkVal;
+    if (overageVal > 0) overageMap[r.itemName] = (overageMap[r.itemName] || 0) + overageVal;
+  });
+
+  const topShrink = Object.entries(shrinkMap).sort(([, a], [, b]) => b - a).slice(0, size).map(([name, value]) => ({ name, value }));
+  const topOverage = Object.entries(overageMap).sort(([, a], [, b]) => b - a).slice(0, size).map(([name, value]) => ({ name, value }));
+  return { topShrink, topOverage };
+};
+
+/** Forensic Web: the top 3 markets in view, each axis normalized against every loaded record. */
+export const buildForensicRadar = (data: ShrinkRecord[], allRecords: ShrinkRecord[], classifySegment: SegmentClassifier): ForensicRadar => {
+  // A. Helper to compute stats for a set of records
+  const computeMarketStats = (records: ShrinkRecord[]) => {
+    const stats: Record<string, {
+      name: string;
+      theftScore: number;    // Pure Shrink
+      processScore: number;  // Ambient Overage (Sloppy Counting)
+      receivingScore: number;// Cold/Frozen Variance (Tablet Errors)
+      revImpact: number;
+      volume: number;
+      rev: number;
+    }> = {};
+
+    records.forEach(r => {
+      if (!stats[r.marketName]) {
+        stats[r.marketName] = {
+          name: r.marketName,
+          theftScore: 0,
+          processScore: 0,
+          receivingScore: 0,
+          revImpact: 0,
+          volume: 0,
+          rev: 0
+        };
+      }
+
+      // Cold and frozen segments are both received through tablet Adds
+      const isTabletReceived = classifySegment(r.itemNumber, r.itemName).kind !== 'ambient';
+
+      // Metric 1: Theft Risk (Total Shrink)
+      stats[r.marketName].theftScore += r.shrinkLoss || 0;
+
+      // Metric 2: Receiving Risk (Fresh/Frozen Variance)
+      if (isTabletReceived) {
+        stats[r.marketName].receivingScore += Math.abs(r.invVariance * (r.unitCost || 0));
+      } else {
+        // Metric 3: Process/Inventory Risk (Ambient Overage)
+        stats[r.marketName].processScore += r.overageGain || 0;
+      }
+
+      stats[r.marketName].rev += r.totalRevenue || 0;
+      stats[r.marketName].volume += 1;
+    });
+
+    // Normalize Rev Impact
+    Object.values(stats).forEach(m => {
+      if (m.rev > 0) m.revImpact = ((m.theftScore + m.processScore + m.receivingScore) / m.rev) * 100;
+    });
+
+    return Object.values(stats);
+  };
+
+  // B. Compute Global Maxes from ALL records (for normalization context)
+  const globalStats = computeMarketStats(allRecords);
+  if (globalStats.length === 0) return { data: [], keys: [] };
+
+  const maxTheft = Math.max(...globalStats.map(m => m.theftScore)) || 1;
+  const maxProcess = Math.max(...globalStats.map(m => m.processScore)) || 1;
+  const maxReceiving = Math.max(...globalStats.map(m => m.receivingScore)) || 1;
+  const maxImpact = Math.max(...globalStats.map(m => m.revImpact)) || 1;
+  const maxVol = Math.max(...globalStats.map(m => m.volume)) || 1;
+
+  // C. Compute Stats for Current View (filtered data)
+  const currentViewStats = computeMarketStats(data);
+
+  // Pick Top 3 from the *filtered* view to display
+  const marketsToShow = currentViewStats
+    .sort((a, b) => (b.theftScore + b.receivingScore + b.processScore) - (a.theftScore + a.receivingScore + a.processScore))
+    .slice(0, 3);
+
+  // D. Transform for Recharts Radar Format (Normalize against GLOBAL Max)
+  const axes = [
+    { subject: 'Theft Risk', fullMark: 100 },
+    { subject: 'Inventory Process', fullMark: 100 },
+    { subject: 'Receiving (Fresh)', fullMark: 100 },
+    { subject: 'Rev Impact', fullMark: 100 },
+    { subject: 'Error Freq', fullMark: 100 },
+  ];
+
+  const finalData = axes.map((axis, i) => {
+    const point: any = { subject: axis.subject, fullMark: 100 };
+    marketsToShow.forEach((m, idx) => {
+      let val = 0;
+      // Normalize against GLOBAL max values, so a single market doesn't look like 100% everywhere
+      if (i === 0) val = (m.theftScore / maxTheft) * 100;
+      else if (i === 1) val = (m.processScore / maxProcess) * 100;
+      else if (i === 2) val = (m.receivingScore / maxReceiving) * 100;
+      else if (i === 3) val = (m.revImpact / maxImpact) * 100;
+      else if (i === 4) val = (m.volume / maxVol) * 100;
+
+      point[`market${idx}`] = Math.min(100, Math.max(0, val));
+    });
+    return point;
+  });
+
+  return {
+    data: finalData,
+    keys: marketsToShow.map((m, i) => ({
+      key: `market${i}`,
+      name: m.name,
+      color: i === 0 ? '#ef4444' : i === 1 ? '#10b981' : '#6366f1'
+    }))
+  };
+};
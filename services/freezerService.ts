@@ -0,0 +1,88 @@
+import { FreezerAdjustment, FreezerCount, ShrinkRecord } from "../types";
+
+const FREEZER_STORAGE_KEY = 'shrink_freezer_counts_v1';
+
+export const freezerItemKey = (itemNumber: string, itemName: string): string => {
+  return String(itemNumber || itemName || '').trim().toLowerCase();
+};
+
+const countKey = (period: string, marketName: string, itemKey: string) => `${period}::${marketName}::${itemKey}`;
+
+export const buildFreezerIndex = (counts: FreezerCount[]): Record<string, number> => {
+  const index: Record<string, number> = {};
+  counts.forEach(c => { index[countKey(c.period, c.marketName, c.itemKey)] = c.count; });
+  return index;
+};
+
+export const freezerCountFor = (index: Record<string, number>, r: ShrinkRecord): number => {
+  return index[countKey(r.period, r.marketName, freezerItemKey(r.itemNumber, r.itemName))] || 0;
+};
+
+/**
+ * Units in the depot freezer were on hand, so they add back onto the scanned variance.
+ * Whatever shrink that removes is phantom; the rest is real loss.
+ */
+export const reconcileRecord = (r: ShrinkRecord, freezerCount: number): FreezerAdjustment => {
+  const adjustedVariance = r.invVariance + freezerCount;
+  const adjustedShrink = adjustedVariance < 0 ? Math.abs(adjustedVariance * (r.unitCost || 0)) : 0;
+  return {
+    adjustedVariance,
+    adjustedShrink,
+    phantomShrink: Math.max(0, (r.shrinkLoss || 0) - adjustedShrink)
+  };
+};
+
+/**
+ * Freezer units applied to each record id. One count covers every row for its period, market and
+ * item, so duplicate rows share it: each takes units up to its own shortage and the last row gets
+ * whatever is left. A lone row gets the whole count.
+ */
+export const allocateFreezerCounts = (records: ShrinkRecord[], counts: FreezerCount[]): Record<string, number> => {
+  const index = buildFreezerIndex(counts);
+  const groups: Record<string, ShrinkRecord[]> = {};
+  records.forEach(r => {
+    const key = countKey(r.period, r.marketName, freezerItemKey(r.itemNumber, r.itemName));
+    if (index[key] > 0) (groups[key] = groups[key] || []).push(r);
+  });
+
+  const applied: Record<string, number> = {};
+  Object.entries(groups).forEach(([key, rows]) => {
+    let remaining = index[key];
+    rows.forEach((r, i) => {
+      const units = i === rows.length - 1 ? remaining : Math.min(remaining, Math.max(0, -r.invVariance));
+      applied[r.id] = units;
+      remaining -= units;
+    });
+  });
+  return applied;
+};
+
+/** Phantom shrink per record id, for records that have a freezer count. */
+export const phantomShrinkById = (records: ShrinkRecord[], counts: FreezerCount[]): Record<string, number> => {
+  const applied = allocateFreezerCounts(records, counts);
+  const result: Record<string, number> = {};
+  records.forEach(r => {
+    const units = applied[r.id] || 0;
+    if (units > 0 && r.shrinkLoss > 0) result[r.id] = reconcileRecord(r, units).phantomShrink;
+  });
+  return result;
+};
+
+/** Replace one item's count; zero or blank removes it. */
+export const setFreezerCount = (counts: FreezerCount[], period: string, marketName: string, itemKey: string, count: number): FreezerCount[] => {
+  const rest = counts.filter(c => !(c.period === period && c.marketName === marketName && c.itemKey === itemKey));
+  return count > 0 ? [...rest, { period, marketName, itemKey, count }] : rest;
+};
+
+export const loadFreezerCounts = (): FreezerCount[] => {
+  try {
+    const saved = localStorage.getItem(FREEZER_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) { return []; }
+};
+
+export const saveFreezerCounts = (counts: FreezerCount[]) => {
+  try {
+    localStorage.setItem(FREEZER_STORAGE_KEY, JSON.stringify(counts));
+  } catch (e) { console.warn("Storage quota limit reached."); }
+};
@@ -1,62 +1,115 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ShrinkRecord } from "../types";
-
-// Ensure TypeScript recognizes the global process object attached to window
-declare global {
-  interface Window {
-    process: {
-      env: {
-        API_KEY?: string;
-      }
-    }
-  }
-}
+import { ChatTurn, DriverScorecard, NamingConfusionPair, SegmentDefinition, ShrinkRecord, VarianceAnomaly } from "../types";
+import { buildSegmentClassifier, describeSegmentRule, withFallbackSegment } from "./segmentService";
+import { authHeaders } from "./accessTokenService";
 
-const getAI = () => {
-  // Robustly retrieve the key from the global window object where App.tsx injects it.
-  // We check window.process explicitly to avoid bundler/transpiler scope isolation issues.
-  const apiKey = window.process?.env?.API_KEY;
+const AI_ROUTES = {
+  QUICK: '/api/ai/quick',
+  DEEP: '/api/ai/deep',
+  PARSE: '/api/ai/parse'
+};
 
-  if (!apiKey) {
-    console.error("AUTH ERROR: API_KEY missing from window.process.env");
+// All Gemini calls go through the Worker proxy, which holds the API key server-side and requires the team token.
+const postToProxy = async (route: string, body: unknown): Promise<Response> => {
+  const res = await fetch(route, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(body)
+  });
+
+  if (res.status === 401 || res.status === 403) {
     throw new Error("AUTH_REQUIRED");
   }
-  return new GoogleGenAI({ apiKey });
+  if (!res.ok) {
+    const payload = await res.json().catch(() => null);
+    throw new Error(payload?.error || `${res.status} ${res.statusText}`);
+  }
+  return res;
 };
 
-const isColdFoodManual = (name: string, code: string) => {
-  const coldPrefixRegex = /^(KF|F\s|B\s)/i;
-  return coldPrefixRegex.test(code) || coldPrefixRegex.test(name);
-};
+// What came back from the proxy; failed answers carry the error text (or AUTH_REQUIRED) and are not worth keeping
+export interface AIAnalysis {
+  text: string;
+  model: string;
+  failed: boolean;
+}
 
-const getAggregates = (records: ShrinkRecord[]) => {
+// Locally computed context sent alongside the raw records
+export interface ForensicContext {
+  segments: SegmentDefinition[];
+  driverScorecards: DriverScorecard[];
+  namingPairs: NamingConfusionPair[];
+  anomalies: VarianceAnomaly[];
+  phantomShrink: number; // Shrink explained by depot freezer counts
+}
+
+const NAMING_EVIDENCE_LIMIT = 15;
+
+const namingEvidence = (pairs: NamingConfusionPair[]) => pairs.slice(0, NAMING_EVIDENCE_LIMIT).map(p => ({
+  market: p.marketName,
+  period: p.period,
+  overageItem: `${p.overage.itemName} (${p.overage.itemNumber})`,
+  overageQty: p.overage.invVariance,
+  shrinkItem: `${p.shrink.itemName} (${p.shrink.itemNumber})`,
+  shrinkQty: p.shrink.invVariance,
+  nameSimilarity: Number(p.similarity.toFixed(2)),
+  shrinkNettedOut: Number(p.explainedShrink.toFixed(2))
+}));
+
+const getAggregates = (records: ShrinkRecord[], segments: SegmentDefinition[], anomalies: VarianceAnomaly[], limit: number) => {
+  const segmentOf = buildSegmentClassifier(segments);
   const marketNames = Array.from(new Set(records.map(r => r.marketName))).filter(Boolean);
 
-  const outliers = records
+  // Anomalies replace the raw top-N once there is enough history to build baselines
+  if (anomalies.length > 0) {
+    const evidence = anomalies.slice(0, limit).map(a => ({
+      scope: a.scope,
+      item: a.itemName,
+      itemCode: a.itemNumber || undefined,
+      market: a.marketName,
+      period: a.period,
+      netVariance: Number(a.value.toFixed(2)),
+      baseline: Number(a.baseline.toFixed(2)),
+      score: Number(a.score.toFixed(1)),
+      segment: a.scope === 'item' ? segmentOf(a.itemNumber, a.itemName).label : undefined
+    }));
+    return { marketNames, evidence, evidenceLabel: `Variance Anomalies (${anomalies.length} breaks from each item's or market's own history; negative score = toward shrink)` };
+  }
+
+  const outliers = [...records]
     .sort((a, b) => b.shrinkLoss - a.shrinkLoss)
-    .slice(0, 50)
+    .slice(0, limit)
     .map(r => ({
       item: r.itemName,
       itemCode: r.itemNumber,
       market: r.marketName,
       variance: r.invVariance,
       impact: r.invVariance * (r.unitCost || 0),
-      isFresh: isColdFoodManual(r.itemName, r.itemNumber)
+      category: r.category,
+      segment: segmentOf(r.itemNumber, r.itemName).label
     }));
 
-  return { marketNames, outliers };
+  return { marketNames, evidence: outliers, evidenceLabel: 'Top Variances (not enough history for anomaly baselines)' };
+};
+
+// Lists which user-defined segments fall under each operational workflow
+const segmentIdentifiers = (segments: SegmentDefinition[], kind: SegmentDefinition['kind']): string => {
+  const matching = withFallbackSegment(segments).filter(s => s.kind === kind);
+  if (matching.length === 0) return 'No segment is configured for this workflow.';
+  return matching.map(s => `"${s.label}" segment: ${describeSegmentRule(s)}`).join('; ');
 };
 
-const OPERATIONAL_CONTEXT = `
+const operationalContext = (segments: SegmentDefinition[]) => `
   OPERATIONAL WORKFLOW CONTEXT (CANTALOUPE / SEED EXPERT MODE):
+  Each item in DATA carries a "segment" label assigned by the rules below.
   
   1. COLD FOOD (Fresh) - TABLET RECEIVING ERRORS: 
-    - IDENTIFIERS: Item Number or Name starts with "KF", "F ", or "B ".
+    - IDENTIFIERS: ${segmentIdentifiers(segments, 'cold')}.
     - INVENTORY METHOD: UPC Scanning (Highly Precise). 
     - RECEIVING ("Adds") METHOD: Manual Tablet Entry.
     - FORENSIC DIAGNOSIS: Positive Variance (Overage) here usually means the driver forgot to "Add" the item on the tablet. Negative Variance (Shrink) implies they added it but it wasn't there (or was stolen).
 
   2. FROZEN ITEMS & THE "DEPOT FREEZER" PARADOX (CRITICAL LOGIC):
+    - IDENTIFIERS: ${segmentIdentifiers(segments, 'frozen')}.
     - SCENARIO: Frozen items are delivered but placed in the **Depot Freezer** (not packed out) to avoid melting.
     - SEED SOFTWARE LOGIC (Pre-Picking & Pars):
       - **IF DRIVER CLEARS THE ADD**: The tablet tells Seed "This item is not in the market."
@@ -74,74 +127,111 @@ const OPERATIONAL_CONTEXT = `
     - If names are >80% similar and variances are inverted, FLAG this as "Naming Confusion".
     
   4. SNACKS & DRINKS (Ambient): 
+    - IDENTIFIERS: ${segmentIdentifiers(segments, 'ambient')}.
     - Variances here are typically Counting Errors or Physical Theft. Overages usually imply sloppy counting in previous periods.
 `;
 
+// Question/answer pairs whose answer failed are dropped so Gemini never sees error text as its own words
+const replayableTurns = (history: ChatTurn[]) => {
+  const turns: { role: ChatTurn['role']; text: string }[] = [];
+  history.forEach((turn, idx) => {
+    const answer = history[idx + 1];
+    if (turn.role === 'user' && answer?.role === 'model' && answer.text && !answer.failed) {
+      turns.push({ role: 'user', text: turn.text }, { role: 'model', text: answer.text });
+    }
+  });
+  return turns;
+};
+
 export const queryMarketAIQuick = async (
   records: ShrinkRecord[], 
   summaryStats: any,
+  context: ForensicContext,
   userQuestion: string,
+  history: ChatTurn[],
   onChunk: (text: string) => void
-) => {
+): Promise<AIAnalysis> => {
   try {
-    const ai = getAI();
-    const { marketNames, outliers } = getAggregates(records);
+    const { segments, namingPairs, anomalies } = context;
+    const { marketNames, evidence, evidenceLabel } = getAggregates(records, segments, anomalies, 20);
+    const conversation = replayableTurns(history);
 
     const prompt = `
       ROLE: Senior Forensic Inventory Auditor & Cantaloupe Seed Software Expert.
-      ${OPERATIONAL_CONTEXT}
+      ${operationalContext(segments)}
       
       DATA CONTEXT:
       - Stats: Rev $${summaryStats.totalRevenue.toLocaleString()}, Shrink $${summaryStats.totalShrink.toLocaleString()}, Overage $${summaryStats.totalOverage.toLocaleString()}.
       - Markets: ${marketNames.join(", ")}
-      - Top Variances: ${JSON.stringify(outliers.slice(0, 20))}
-      
+      - ${evidenceLabel}: ${JSON.stringify(evidence)}
+      - Naming Confusion Pairs (detected locally, ${namingPairs.length} total): ${JSON.stringify(namingEvidence(namingPairs))}
+      ${conversation.length > 0 ? `
+      CONVERSATION: This is a follow-up in an ongoing investigation; the earlier turns are in the conversation history.
+      Resolve references like "that" or "those items" against them. The DATA CONTEXT above is current and replaces any figures
+      quoted in earlier turns (the user may have changed market, period or segment filters since).
+      ` : ''}
       USER QUESTION: "${userQuestion}"
       
       STRICT RESPONSE GUIDELINES:
       1. If the user asks about Cold Food/Fresh items, blame the "Tablet Adds" process first.
       2. If Frozen items are mentioned, explain the "Depot Freezer Paradox" (Clearing adds = Reorders; Keeping adds = Shrink).
-      3. EXPLICITLY look for naming confusion (similar names, opposite variances).
+      3. EXPLICITLY look for naming confusion (similar names, opposite variances), starting from the detected pairs.
       4. Use clinical, bulleted Markdown.
     `;
 
-    const responseStream = await ai.models.generateContentStream({
-      model: "gemini-3-flash-preview",
-      contents: prompt
-    });
+    // Earlier turns go as plain question/answer; only this turn carries the (fresh) data context
+    const res = await postToProxy(AI_ROUTES.QUICK, { prompt, history: conversation });
+    if (!res.body) throw new Error("Empty response stream");
+    const model = res.headers.get('X-AI-Model') || '';
 
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
     let fullText = "";
-    for await (const chunk of responseStream) {
-      if (chunk.text) {
-        fullText += chunk.text;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const text = decoder.decode(value, { stream: true });
+      if (text) {
+        fullText += text;
         onChunk(fullText);
       }
     }
+    return { text: fullText, model, failed: !fullText };
   } catch (error: any) {
     const msg = error.message || "";
-    if (msg.includes("AUTH_REQUIRED") || msg.includes("403") || msg.includes("401") || msg.includes("API key")) {
-      onChunk("AUTH_REQUIRED");
-    } else {
-      onChunk("Diagnosis failed. Error: " + msg);
-    }
+    const text = msg.includes("AUTH_REQUIRED") || msg.includes("403") || msg.includes("401") || msg.includes("API key")
+      ? "AUTH_REQUIRED"
+      : "Diagnosis failed. Error: " + msg;
+    onChunk(text);
+    return { text, model: '', failed: true };
   }
 };
 
 export const queryMarketAIDeep = async (
   records: ShrinkRecord[], 
-  summaryStats: any
-): Promise<string> => {
+  summaryStats: any,
+  context: ForensicContext
+): Promise<AIAnalysis> => {
   try {
-    const ai = getAI();
-    const { outliers } = getAggregates(records);
+    const { segments, driverScorecards, namingPairs, anomalies, phantomShrink } = context;
+    const { evidence, evidenceLabel } = getAggregates(records, segments, anomalies, 50);
+    const driverContext = driverScorecards.map(d => ({
+      driver: d.driver,
+      markets: d.markets,
+      shrinkPct: Number(d.shrinkPct.toFixed(2)),
+      overagePct: Number(d.overagePct.toFixed(2)),
+      integrity: d.integrity,
+      missedAddsValue: Number(d.missedAdds.toFixed(2)),
+      frozenShrinkValue: Number(d.frozenShrink.toFixed(2))
+    }));
 
     const prompt = `
       ROLE: You are "The Shrink Shrink", a helpful inventory coach who is an expert in the **Seed / MyCantaloupe** software logic.
-      ${OPERATIONAL_CONTEXT}
+      ${operationalContext(segments)}
       
       VITALS: 
       - Revenue: $${summaryStats.totalRevenue.toLocaleString()}
-      - Shrink: $${summaryStats.totalShrink.toLocaleString()}
+      - Shrink: $${summaryStats.totalShrink.toLocaleString()} (of which $${phantomShrink.toLocaleString()} is phantom shrink: stock counted in the Depot Freezer)
       - Integrity: ${summaryStats.accuracy}%
       
       PLEASE PROVIDE A DIAGNOSTIC SUMMARY (Use clear, simple language):
@@ -152,75 +242,57 @@ export const queryMarketAIDeep = async (
          - **Frozen Item Check**: Explain the **Seed Software Logic**. If there is shrink in Frozen, ask if they are keeping the tablet "Adds" but leaving food in the Depot Freezer. 
          - **The Frozen Catch-22**: Explain that if they *clear* the add to fix the shrink, Seed will see the market is under PAR and **Auto-Reorder** more stock, flooding the depot. The only fix is to physically stock the machine or count the depot inventory.
          - **Cold Food**: Explain tablet entry errors vs scanning.
-         - **Naming Confusion**: Check for similar names trading variances.
+         - **Naming Confusion**: Walk through the NAMING CONFUSION EVIDENCE pairs (already matched locally) and say how much shrink they net out.
+      
+      3. **Driver Coaching**: Using DRIVER CONTEXT, name which drivers' routes show the missed-Add or depot-freezer patterns above and what each should change. "Unassigned" markets have no driver on record.
       
-      3. **Key Observations**: Highlight specific items from the data.
+      4. **Key Observations**: Highlight specific items and markets from the DATA, explaining what broke from its usual pattern.
       
-      4. **Helpful Recommendations**: Suggest practical wins. "If you don't pack out the freezer, you must count that stock, otherwise the system thinks you need more!"
+      5. **Helpful Recommendations**: Suggest practical wins. "If you don't pack out the freezer, you must count that stock, otherwise the system thinks you need more!"
       
       Tone: Helpful, Explanatory, Coherent. Show off your knowledge of how the Seed system thinks (Pars vs On Hand).
       
-      DATA: ${JSON.stringify(outliers)}
+      DRIVER CONTEXT (route owner per market, rolled up): ${JSON.stringify(driverContext)}
+      
+      NAMING CONFUSION EVIDENCE (${namingPairs.length} pairs; overage and shrink on look-alike names in the same market and period): ${JSON.stringify(namingEvidence(namingPairs))}
+      
+      DATA (${evidenceLabel}): ${JSON.stringify(evidence)}
     `;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: prompt,
-      config: {
-        thinkingConfig: { thinkingBudget: 4000 },
-        maxOutputTokens: 8000
-      }
-    });
-    return response.text || "Diagnostic report generation failed.";
+    const res = await postToProxy(AI_ROUTES.DEEP, { prompt });
+    const data = await res.json();
+    if (!data.text) return { text: "Diagnostic report generation failed.", model: data.model || '', failed: true };
+    return { text: data.text, model: data.model || '', failed: false };
   } catch (error: any) {
     const msg = error.message || "";
     if (msg.includes("AUTH_REQUIRED") || msg.includes("403") || msg.includes("401") || msg.includes("API key")) {
-      return "AUTH_REQUIRED";
+      return { text: "AUTH_REQUIRED", model: '', failed: true };
     }
-    return "Forensic connection failed: " + msg;
+    return { text: "Forensic connection failed: " + msg, model: '', failed: true };
   }
 };
 
-export const parseRawReportText = async (rawText: string): Promise<{ records: Partial<ShrinkRecord>[], detectedPeriod: string, detectedMarket: string }> => {
+// Extraction outcome; `error` is set (AUTH_REQUIRED or the proxy's message) instead of returning an empty parse
+export interface ParsedReport {
+  records: Partial<ShrinkRecord>[];
+  detectedPeriod: string;
+  detectedMarket: string;
+  truncatedAt: number | null; // Characters the Worker actually read, when it cut the text short
+  error: string | null;
+}
+
+export const parseRawReportText = async (rawText: string): Promise<ParsedReport> => {
   try {
-    const ai = getAI();
-    const prompt = `Extract inventory data from this text. Focus on identifying the human-readable Market Name, the Reporting Period, and the itemized variances. Return valid JSON.\n\nTEXT:\n${rawText.slice(0, 15000)}`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            detectedPeriod: { type: Type.STRING },
-            detectedMarket: { type: Type.STRING },
-            items: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  itemNumber: { type: Type.STRING },
-                  itemName: { type: Type.STRING },
-                  invVariance: { type: Type.NUMBER },
-                  totalRevenue: { type: Type.NUMBER },
-                  unitCost: { type: Type.NUMBER }
-                }
-              }
-            }
-          }
-        }
-      }
-    });
-    const parsed = JSON.parse(response.text || "{}");
+    const res = await postToProxy(AI_ROUTES.PARSE, { text: rawText });
+    const parsed = await res.json();
     return { 
       records: parsed.items || [], 
       detectedPeriod: parsed.detectedPeriod || 'Current',
-      detectedMarket: parsed.detectedMarket || 'Unidentified'
+      detectedMarket: parsed.detectedMarket || '', // Left blank so the reviewer must name the market
+      truncatedAt: typeof parsed.truncatedAt === 'number' ? parsed.truncatedAt : null,
+      error: null
     };
-  } catch (error) {
-    console.error("Forensic Parser Error:", error);
-    return { records: [], detectedPeriod: '', detectedMarket: '' };
+  } catch (error: any) {
+    return { records: [], detectedPeriod: '', detectedMarket: '', truncatedAt: null, error: error?.message || 'Unknown parser error' };
   }
-};
\ No newline at end of file
+};
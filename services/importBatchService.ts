@@ -0,0 +1,77 @@
+import { ImportBatch, ImportMode, ShrinkRecord } from "../types";
+
+interface NewBatchInput {
+  fileName: string;
+  period: string;
+  mode: ImportMode;
+  markets: string[];
+  records: ShrinkRecord[];
+  replacedRecords: ShrinkRecord[];
+}
+
+export const createImportBatch = (input: NewBatchInput): ImportBatch => ({
+  id: `batch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  fileName: input.fileName,
+  importedAt: new Date().toISOString(),
+  period: input.period,
+  markets: input.markets,
+  rowCount: input.records.length,
+  mode: input.mode,
+  records: input.records,
+  replacedRecords: input.replacedRecords,
+  status: 'applied'
+});
+
+// Identity used to dedupe merged uploads: market + item number (name when unnumbered) + period
+export const recordMergeKey = (r: ShrinkRecord): string => {
+  return [r.marketName, r.itemNumber || r.itemName, r.period].map(v => String(v || '').trim().toLowerCase()).join('::');
+};
+
+/** Collapse rows of one upload that share a merge key; the last occurrence in the file wins. */
+export const dedupeByMergeKey = (records: ShrinkRecord[]): ShrinkRecord[] => {
+  const byKey = new Map<string, ShrinkRecord>();
+  records.forEach(r => {
+    const key = recordMergeKey(r);
+    byKey.delete(key);
+    byKey.set(key, r);
+  });
+  return Array.from(byKey.values());
+};
+
+/**
+ * Existing ledger rows an upload into `period` will displace. Replace mode clears the whole
+ * period; merge mode only drops rows whose merge key reappears in the incoming file.
+ */
+export const findReplacedRecords = (ledger: ShrinkRecord[], incoming: ShrinkRecord[], period: string, mode: ImportMode): ShrinkRecord[] => {
+  const inPeriod = ledger.filter(r => r.period === period);
+  if (mode === 'replace') return inPeriod;
+  const incomingKeys = new Set(incoming.map(recordMergeKey));
+  return inPeriod.filter(r => incomingKeys.has(recordMergeKey(r)));
+};
+
+/**
+ * The newest later batch, still applied, that displaced rows this batch touches: its own records
+ * while it is applied, or the ones its rollback restored. Undoing or redoing this batch would then
+ * overwrite that batch's rows, so batches have to be rolled back newest first.
+ */
+export const findSupersedingBatch = (batches: ImportBatch[], batch: ImportBatch): ImportBatch | undefined => {
+  const touchedIds = new Set([...batch.records, ...batch.replacedRecords].map(r => r.id));
+  return batches
+    .filter(b => b.status === 'applied' && b.importedAt > batch.importedAt)
+    .sort((a, b) => b.importedAt.localeCompare(a.importedAt))
+    .find(b => b.replacedRecords.some(r => touchedIds.has(r.id)));
+};
+
+/** Remove the records a batch displaced and add the ones it created. */
+export const applyImportBatch = (ledger: ShrinkRecord[], batch: ImportBatch): ShrinkRecord[] => {
+  const removeIds = new Set([...batch.replacedRecords, ...batch.records].map(r => r.id));
+  return [...ledger.filter(r => !removeIds.has(r.id)), ...batch.records];
+};
+
+/** Remove the records a batch created and restore the ones it displaced. */
+export const rollbackImportBatch = (ledger: ShrinkRecord[], batch: ImportBatch): ShrinkRecord[] => {
+  const createdIds = new Set(batch.records.map(r => r.id));
+  const remaining = ledger.filter(r => !createdIds.has(r.id));
+  const presentIds = new Set(remaining.map(r => r.id));
+  return [...remaining, ...batch.replacedRecords.filter(r => !presentIds.has(r.id))];
+};
@@ -0,0 +1,371 @@
+import * as XLSX from 'xlsx';
+import { ColumnField, ColumnMap, DetectedFormat, DraftRow, MappingProfile, ParsedSheet, ShrinkRecord, SpreadsheetFormat, TextEncoding } from "../types";
+
+export const COLUMN_FIELDS: { field: ColumnField; label: string }[] = [
+  { field: 'itemNum', label: 'Item Number' },
+  { field: 'itemName', label: 'Item Name' },
+  { field: 'variance', label: 'Inv Variance (Qty)' },
+  { field: 'itemCost', label: 'Unit Cost' },
+  { field: 'revenue', label: 'Total Revenue' },
+  { field: 'soldQty', label: 'Sold Qty' },
+  { field: 'salePrice', label: 'Sale Price' }
+];
+
+// Positional fallback used when a header cell can't be matched (Seed's default export layout)
+const DEFAULT_COLUMN_MAP: ColumnMap = { itemNum: 0, itemName: 1, variance: 2, revenue: 3, soldQty: 4, salePrice: 5, itemCost: 7 };
+
+const MIN_SHEET_ROWS = 5;
+const HEADER_SCAN_ROWS = 50;
+
+const SNIFF_LINES = 20;
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|'];
+
+const DELIMITER_NAMES: Record<string, string> = { ',': 'Comma', '\t': 'Tab', ';': 'Semicolon', '|': 'Pipe' };
+const ENCODING_LABELS: Record<TextEncoding, string> = { 'utf-8': 'UTF-8', 'utf-16le': 'UTF-16 LE', 'utf-16be': 'UTF-16 BE', 'windows-1252': 'Windows-1252' };
+
+const PROFILES_STORAGE_KEY = 'shrink_mapping_profiles_v1';
+
+export const humanizeMarketName = (name: string): string => {
+  if (!name) return '';
+  let cleaned = name.replace(/^(Market|Location|Name|Site|Loc|Mkt|Point of Sale|POS|Site Name):\s*/i, '');
+  const segments = cleaned.split(/\s*[-|:/]\s+/);
+  const meaningfulSegments = segments.filter(seg => {
+    const s = seg.trim();
+    if (!s) return false;
+    if (segments.length === 1) return true;
+    if (/^\d+$/.test(s)) return false;
+    if (/^[A-Z0-9]{2,4}$/.test(s)) return false;
+    return true;
+  });
+  if (meaningfulSegments.length > 0) return meaningfulSegments.join(' - ').trim();
+  return cleaned.trim() || name;
+};
+
+// Strict Header Detection: Must contain identifying column name AND a value column name
+const looksLikeHeader = (row: any[]): boolean => {
+  const rowStr = row.join('|').toLowerCase();
+  const hasItemKey = rowStr.includes('item') || rowStr.includes('description') || rowStr.includes('number') || rowStr.includes('code');
+  const hasValueKey = rowStr.includes('variance') || rowStr.includes('revenue') || rowStr.includes('qty') || rowStr.includes('diff');
+  return hasItemKey && hasValueKey;
+};
+
+/** Map header cells onto fields, reporting which fields were matched by name rather than position. */
+export const mapHeaderRow = (row: any[]): { colMap: ColumnMap; detected: ColumnField[] } => {
+  const colMap = { ...DEFAULT_COLUMN_MAP };
+  const detected = new Set<ColumnField>();
+  const assign = (field: ColumnField, idx: number) => { colMap[field] = idx; detected.add(field); };
+
+  row.forEach((cell, idx) => {
+    const s = String(cell || '').toLowerCase().trim();
+    if (s.includes('number') || s.includes('code')) assign('itemNum', idx);
+    else if (s === 'item' || s === 'description') assign('itemName', idx);
+    else if (s.includes('variance') || s.includes('diff')) {
+       if (s.includes('qty') || s.includes('count')) assign('variance', idx);
+       else if (!s.includes('cost') && !s.includes('$')) assign('variance', idx);
+    }
+    else if (s.includes('revenue')) assign('revenue', idx);
+    else if (s.includes('cost')) assign('itemCost', idx);
+    else if (['sold', 'qty', 'quantity', 'sales'].some(k => s.includes(k))) assign('soldQty', idx);
+    else if (['price', 'retail', 'srp', 'sale'].some(k => s.includes(k))) assign('salePrice', idx);
+  });
+  return { colMap, detected: Array.from(detected) };
+};
+
+/** Normalized header text used to recognise exports that share a layout. */
+export const headerSignature = (row: any[] | undefined): string => {
+  if (!row) return '';
+  return row.map(cell => String(cell || '').toLowerCase().replace(/\s+/g, ' ').trim()).join('|');
+};
+
+const sheetMarketName = (rows: any[][], sheetName: string): string => {
+  // Metadata extraction attempts (Location/Market Name)
+  const locationVal = rows[2]?.[0] || '';
+  const marketVal = rows[3]?.[0] || '';
+  return humanizeMarketName(String(marketVal || locationVal || sheetName));
+};
+
+/** Build a sheet for the mapping step, with the header row and column map auto-detected. */
+export const analyzeSheet = (name: string, rows: any[][]): ParsedSheet => {
+  let headerRowIndex = -1;
+  for (let i = 0; i < Math.min(rows.length, HEADER_SCAN_ROWS); i++) {
+    if (rows[i] && looksLikeHeader(rows[i])) {
+      headerRowIndex = i;
+      break;
+    }
+  }
+
+  const mapped = headerRowIndex === -1 ? { colMap: { ...DEFAULT_COLUMN_MAP }, detected: [] } : mapHeaderRow(rows[headerRowIndex]);
+  let skipReason: string | undefined;
+  if (rows.length < MIN_SHEET_ROWS) skipReason = `Only ${rows.length} rows (minimum ${MIN_SHEET_ROWS})`;
+  else if (headerRowIndex === -1) skipReason = 'No header row with item and variance columns found';
+
+  return {
+    name,
+    rows,
+    marketName: sheetMarketName(rows, name),
+    headerRowIndex,
+    colMap: mapped.colMap,
+    detected: mapped.detected,
+    signature: headerSignature(rows[headerRowIndex]),
+    included: !skipReason,
+    skipReason
+  };
+};
+
+/** Re-run detection after the user points the mapping step at a different header row. */
+export const withHeaderRow = (sheet: ParsedSheet, headerRowIndex: number): ParsedSheet => {
+  const { colMap, detected } = mapHeaderRow(sheet.rows[headerRowIndex] || []);
+  return {
+    ...sheet,
+    headerRowIndex,
+    colMap,
+    detected,
+    signature: headerSignature(sheet.rows[headerRowIndex]),
+    manual: [],
+    included: true,
+    skipReason: undefined,
+    profileId: undefined
+  };
+};
+
+const workbookSheets = (workbook: XLSX.WorkBook): ParsedSheet[] => {
+  return workbook.SheetNames.map(sheetName => {
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, defval: '' }) as any[][];
+    return analyzeSheet(sheetName, rows || []);
+  });
+};
+
+export const parseWorkbook = (data: ArrayBuffer): ParsedSheet[] => {
+  return workbookSheets(XLSX.read(new Uint8Array(data), { type: 'array' }));
+};
+
+// --- FORMAT DETECTION ---
+
+const startsWith = (bytes: Uint8Array, signature: number[]) => signature.every((b, i) => bytes[i] === b);
+
+/** Pick a text encoding from the byte-order mark, falling back to UTF-16 zero-byte patterns and strict UTF-8 decoding. */
+export const detectTextEncoding = (bytes: Uint8Array): TextEncoding => {
+  if (startsWith(bytes, [0xEF, 0xBB, 0xBF])) return 'utf-8';
+  if (startsWith(bytes, [0xFF, 0xFE])) return 'utf-16le';
+  if (startsWith(bytes, [0xFE, 0xFF])) return 'utf-16be';
+
+  // BOM-less UTF-16: ASCII text leaves every other byte zero
+  const sample = bytes.subarray(0, 512);
+  let evenZeros = 0, oddZeros = 0;
+  sample.forEach((b, i) => { if (b === 0) { if (i % 2 === 0) evenZeros++; else oddZeros++; } });
+  const pairs = Math.max(1, Math.floor(sample.length / 2));
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch (e) {
+    return 'windows-1252';
+  }
+};
+
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0, inQuotes = false;
+  for (const ch of line) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+/**
+ * Choose the delimiter that splits the opening lines most consistently. Export preambles
+ * (report title, market name) have fewer columns, so the most common per-line count is
+ * weighed rather than requiring every line to agree.
+ */
+export const sniffDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, SNIFF_LINES);
+  let best = ',', bestScore = 0;
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const tally = new Map<number, number>();
+    lines.forEach(line => {
+      const n = countOutsideQuotes(line, delimiter);
+      if (n > 0) tally.set(n, (tally.get(n) || 0) + 1);
+    });
+    tally.forEach((lineCount, columns) => {
+      const score = lineCount * columns;
+      if (score > bestScore) { best = delimiter; bestScore = score; }
+    });
+  });
+  return best;
+};
+
+/** Identify the container from its magic bytes, using the file extension only for plain text. */
+export const detectSpreadsheetFormat = (fileName: string, bytes: Uint8Array): SpreadsheetFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase() || '';
+  // OLE compound document: legacy Excel 97-2003
+  if (startsWith(bytes, [0xD0, 0xCF, 0x11, 0xE0])) return 'xls';
+  // ZIP container: OpenDocument normally stores its mimetype uncompressed near the start of the archive
+  if (startsWith(bytes, [0x50, 0x4B, 0x03, 0x04])) {
+    const head = new TextDecoder('ascii').decode(bytes.subarray(0, 1024));
+    return head.includes('opendocument.spreadsheet') || ext === 'ods' ? 'ods' : 'xlsx';
+  }
+  if (ext === 'xls') return 'xls';
+  if (ext === 'tsv' || ext === 'tab') return 'tsv';
+  if (ext === 'csv' || ext === 'txt') return 'csv';
+  return null;
+};
+
+export const describeFormat = (detected: DetectedFormat): string => {
+  const parts: string[] = [detected.format.toUpperCase()];
+  if (detected.encoding) parts.push(ENCODING_LABELS[detected.encoding]);
+  if (detected.delimiter) parts.push(`${DELIMITER_NAMES[detected.delimiter] || detected.delimiter}-Delimited`);
+  return parts.join(' · ');
+};
+
+const parseDelimitedFile = (fileName: string, bytes: Uint8Array): { sheets: ParsedSheet[]; detected: DetectedFormat } => {
+  const encoding = detectTextEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+  const delimiter = sniffDelimiter(text);
+  const workbook = XLSX.read(text, { type: 'string', FS: delimiter });
+  const sheetName = fileName.replace(/\.[^.]+$/, '') || fileName;
+  const rows = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { header: 1, defval: '' }) as any[][];
+  return {
+    sheets: [analyzeSheet(sheetName, rows || [])],
+    detected: { format: delimiter === '\t' ? 'tsv' : 'csv', encoding, delimiter }
+  };
+};
+
+/** Parse any supported upload (XLSX, XLS, ODS, CSV, TSV) into sheets for the mapping step. */
+export const parseSpreadsheetFile = (fileName: string, data: ArrayBuffer): { sheets: ParsedSheet[]; detected: DetectedFormat } => {
+  const bytes = new Uint8Array(data);
+  const format = detectSpreadsheetFormat(fileName, bytes);
+  if (format === 'csv' || format === 'tsv' || format === null) return parseDelimitedFile(fileName, bytes);
+  return { sheets: parseWorkbook(data), detected: { format } };
+};
+
+interface RecordInputs {
+  itemNumber: string;
+  itemName: string;
+  invVariance: number;
+  unitCost: number;
+  salePrice: number;
+  soldQty: number;
+  totalRevenue: number;
+  marketName: string;
+  period: string;
+}
+
+/** Derive revenue, profit and shrink/overage values the same way for every import path. */
+export const buildShrinkRecord = (input: RecordInputs): Omit<ShrinkRecord, 'id'> => {
+  const { invVariance, unitCost, salePrice, soldQty } = input;
+
+  let totalRevenue = input.totalRevenue;
+  if (totalRevenue === 0 && salePrice > 0 && soldQty > 0) {
+    totalRevenue = salePrice * soldQty;
+  }
+
+  const itemProfit = salePrice > 0 ? (salePrice - unitCost) * soldQty : 0;
+
+  const shrinkLoss = invVariance < 0 ? Math.abs(invVariance * unitCost) : 0;
+  const overageGain = invVariance > 0 ? (invVariance * unitCost) : 0;
+  const netVarianceValue = overageGain - shrinkLoss;
+
+  return {
+    itemNumber: input.itemNumber,
+    itemName: input.itemName,
+    invVariance,
+    totalRevenue,
+    shrinkLoss,
+    overageGain,
+    netVarianceValue,
+    unitCost,
+    soldQty,
+    salePrice,
+    itemProfit,
+    category: '',
+    marketName: input.marketName,
+    period: input.period
+  };
+};
+
+const cell = (row: any[], idx: number) => (idx >= 0 ? row[idx] : '');
+
+/**
+ * Read numeric cells the way spreadsheets display them: currency symbols, thousands
+ * separators and accounting-style (negatives). Blank cells are null; unparseable text is NaN.
+ */
+export const parseNumericCell = (value: any): number | null => {
+  if (typeof value === 'number') return value;
+  const s = String(value ?? '').trim();
+  if (!s) return null;
+  const negative = /^\(.*\)$/.test(s);
+  const cleaned = s.replace(/[()$,\s]/g, '');
+  const n = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned) ? Number(cleaned) : NaN;
+  return negative ? -n : n;
+};
+
+const numericOrZero = (value: any): number => {
+  const n = parseNumericCell(value);
+  return n === null || isNaN(n) ? 0 : n;
+};
+
+/** Rows from a mapped sheet, kept raw for the validation step. Subtotal rows are included but excluded. */
+export const extractSheetRows = (sheet: ParsedSheet): DraftRow[] => {
+  if (!sheet.included || sheet.headerRowIndex === -1) return [];
+  const { colMap } = sheet;
+  const drafts: DraftRow[] = [];
+
+  sheet.rows.forEach((row: any[], idx) => {
+    if (idx <= sheet.headerRowIndex) return;
+    if (!cell(row, colMap.itemNum) && !cell(row, colMap.itemName)) return;
+    const itemName = String(cell(row, colMap.itemName) || '');
+
+    drafts.push({
+      id: `${sheet.name}::${idx}`,
+      source: sheet.name,
+      rowNumber: idx + 1,
+      marketName: sheet.marketName,
+      itemNumber: String(cell(row, colMap.itemNum) || ''),
+      itemName,
+      variance: String(cell(row, colMap.variance) ?? ''),
+      unitCost: String(cell(row, colMap.itemCost) ?? ''),
+      totalRevenue: numericOrZero(cell(row, colMap.revenue)),
+      soldQty: numericOrZero(cell(row, colMap.soldQty)),
+      salePrice: numericOrZero(cell(row, colMap.salePrice)),
+      excluded: itemName.toLowerCase().includes('total')
+    });
+  });
+  return drafts;
+};
+
+export const draftRowToRecord = (row: DraftRow, period: string): Omit<ShrinkRecord, 'id'> => buildShrinkRecord({
+  itemNumber: row.itemNumber.trim(),
+  itemName: row.itemName.trim(),
+  invVariance: numericOrZero(row.variance),
+  unitCost: numericOrZero(row.unitCost),
+  salePrice: row.salePrice,
+  soldQty: row.soldQty,
+  totalRevenue: row.totalRevenue,
+  marketName: row.marketName,
+  period
+});
+
+// --- MAPPING PROFILES ---
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) { return []; }
+};
+
+export const saveMappingProfiles = (profiles: MappingProfile[]) => {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) { console.warn("Storage quota limit reached."); }
+};
+
+/** Apply any saved profile whose header signature matches the sheet's header row. */
+export const applyMappingProfiles = (sheets: ParsedSheet[], profiles: MappingProfile[]): ParsedSheet[] => {
+  return sheets.map(sheet => {
+    const profile = profiles.find(p => p.signature && p.signature === sheet.signature);
+    return profile ? { ...sheet, colMap: { ...profile.colMap }, profileId: profile.id } : sheet;
+  });
+};
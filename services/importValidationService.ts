@@ -0,0 +1,45 @@
+import { DraftRow, ParsedSheet, SkippedSheet, ValidationIssue } from "../types";
+import { parseNumericCell } from "./importService";
+
+export const listSkippedSheets = (sheets: ParsedSheet[]): SkippedSheet[] => {
+  return sheets
+    .filter(s => !s.included || s.headerRowIndex === -1)
+    .map(s => ({ name: s.name, reason: s.skipReason || 'Excluded during column mapping' }));
+};
+
+/** Check the rows that will be committed; excluded rows only report why they were set aside. */
+export const validateDraftRows = (rows: DraftRow[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const seen = new Map<string, DraftRow>();
+
+  rows.forEach(row => {
+    if (row.excluded) {
+      if (row.itemName.toLowerCase().includes('total')) {
+        issues.push({ rowId: row.id, kind: 'total-row', message: 'Looks like a subtotal row' });
+      }
+      return;
+    }
+
+    const variance = parseNumericCell(row.variance);
+    const cost = parseNumericCell(row.unitCost);
+    if (variance !== null && isNaN(variance)) {
+      issues.push({ rowId: row.id, kind: 'non-numeric-variance', message: `Variance "${row.variance}" is not a number` });
+    }
+    if (cost !== null && isNaN(cost)) {
+      issues.push({ rowId: row.id, kind: 'non-numeric-cost', message: `Unit cost "${row.unitCost}" is not a number` });
+    } else if (!cost && variance) {
+      issues.push({ rowId: row.id, kind: 'missing-cost', message: 'No unit cost, so this variance is valued at $0' });
+    }
+
+    if (row.itemNumber.trim()) {
+      const key = `${row.marketName.trim().toLowerCase()}::${row.itemNumber.trim().toLowerCase()}`;
+      const first = seen.get(key);
+      if (first) {
+        issues.push({ rowId: row.id, kind: 'duplicate-item', message: `Item #${row.itemNumber} already appears in ${first.source} row ${first.rowNumber}` });
+      } else {
+        seen.set(key, row);
+      }
+    }
+  });
+  return issues;
+};
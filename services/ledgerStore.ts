@@ -0,0 +1,242 @@
+import { ShrinkRecord, ImportBatch, AIAnalysisEntry } from "../types";
+import { normalizePeriod } from "./periodService";
+
+const DB_NAME = 'shrink-shrink-ledger';
+// Bump DB_VERSION when object stores or indexes change (handled in onupgradeneeded)
+const DB_VERSION = 2;
+
+const STORES = {
+  RECORDS: 'records',
+  META: 'meta',
+  IMPORTS: 'imports'
+};
+
+const LEGACY_RECORDS_KEY = 'shrink_records_v6';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const CLOUD_SYNCED_IDS_KEY = 'cloudSyncedIds';
+const AI_HISTORY_KEY = 'aiHistory';
+
+// Bump LEDGER_SCHEMA_VERSION whenever the ShrinkRecord shape changes and add a step to
+// RECORD_MIGRATIONS that upgrades a record from the previous version.
+export const LEDGER_SCHEMA_VERSION = 1;
+
+type RecordMigration = (record: any) => any;
+
+const RECORD_MIGRATIONS: Record<number, RecordMigration> = {
+  // v0 -> v1: unversioned v6 localStorage records (bare month names, missing category)
+  1: (r) => ({
+    ...r,
+    period: normalizePeriod(r.period),
+    category: r.category || ''
+  })
+};
+
+const migrateRecord = (record: any, fromVersion: number): ShrinkRecord => {
+  let migrated = record;
+  for (let v = fromVersion + 1; v <= LEDGER_SCHEMA_VERSION; v++) {
+    const step = RECORD_MIGRATIONS[v];
+    if (step) migrated = step(migrated);
+  }
+  return migrated as ShrinkRecord;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Ledger transaction aborted'));
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Records as last written, by id. State updates replace records rather than mutating them, so a
+// new object under an id means that row changed; null forces the next save to rewrite everything.
+let persistedRecords: Map<string, ShrinkRecord> | null = null;
+
+const rememberPersisted = (records: ShrinkRecord[]) => {
+  persistedRecords = new Map(records.map(r => [r.id, r]));
+};
+
+const openLedgerDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const oldVersion = event.oldVersion;
+      if (oldVersion < 1) {
+        const records = db.createObjectStore(STORES.RECORDS, { keyPath: 'id' });
+        records.createIndex('marketName', 'marketName');
+        records.createIndex('period', 'period');
+        records.createIndex('itemNumber', 'itemNumber');
+        db.createObjectStore(STORES.META);
+      }
+      if (oldVersion < 2) {
+        const imports = db.createObjectStore(STORES.IMPORTS, { keyPath: 'id' });
+        imports.createIndex('period', 'period');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const readSchemaVersion = async (db: IDBDatabase): Promise<number> => {
+  const tx = db.transaction(STORES.META, 'readonly');
+  const version = await requestToPromise(tx.objectStore(STORES.META).get(SCHEMA_VERSION_KEY));
+  return typeof version === 'number' ? version : 0;
+};
+
+const writeAll = async (db: IDBDatabase, records: ShrinkRecord[], clearFirst: boolean) => {
+  const tx = db.transaction([STORES.RECORDS, STORES.META], 'readwrite');
+  const store = tx.objectStore(STORES.RECORDS);
+  if (clearFirst) store.clear();
+  records.forEach(r => store.put(r));
+  tx.objectStore(STORES.META).put(LEDGER_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+  await transactionDone(tx);
+};
+
+// One-time import of the v6 localStorage ledger; the key is removed once IndexedDB holds the data
+const importLegacyLocalStorage = async (db: IDBDatabase): Promise<boolean> => {
+  let legacy: any[] = [];
+  try {
+    const saved = localStorage.getItem(LEGACY_RECORDS_KEY);
+    legacy = saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    return false;
+  }
+  if (!Array.isArray(legacy) || legacy.length === 0) return false;
+
+  await writeAll(db, legacy.map(r => migrateRecord(r, 0)), false);
+  localStorage.removeItem(LEGACY_RECORDS_KEY);
+  return true;
+};
+
+// Import batches keep copies of records for rollback, so they follow the same schema upgrades
+const migrateImportBatches = async (db: IDBDatabase, fromVersion: number) => {
+  const tx = db.transaction(STORES.IMPORTS, 'readwrite');
+  const store = tx.objectStore(STORES.IMPORTS);
+  const batches = await requestToPromise(store.getAll());
+  (batches as ImportBatch[]).forEach(b => store.put({
+    ...b,
+    records: b.records.map(r => migrateRecord(r, fromVersion)),
+    replacedRecords: b.replacedRecords.map(r => migrateRecord(r, fromVersion))
+  }));
+  await transactionDone(tx);
+};
+
+/**
+ * Open the ledger, importing legacy localStorage data and upgrading stored records to
+ * the current schema version, then return every record.
+ */
+export const loadLedger = async (): Promise<ShrinkRecord[]> => {
+  const db = await openLedgerDB();
+  const storedVersion = await readSchemaVersion(db);
+  await importLegacyLocalStorage(db);
+
+  const tx = db.transaction(STORES.RECORDS, 'readonly');
+  const records = await requestToPromise(tx.objectStore(STORES.RECORDS).getAll());
+
+  if (storedVersion > 0 && storedVersion < LEDGER_SCHEMA_VERSION) {
+    const migrated = records.map(r => migrateRecord(r, storedVersion));
+    await migrateImportBatches(db, storedVersion);
+    await writeAll(db, migrated, true);
+    rememberPersisted(migrated);
+    return migrated;
+  }
+  rememberPersisted(records);
+  return records as ShrinkRecord[];
+};
+
+/** Persist the ledger, writing only the records added or changed and deleting the removed ones. */
+export const saveLedger = async (records: ShrinkRecord[]): Promise<void> => {
+  const db = await openLedgerDB();
+  const previous = persistedRecords;
+  if (!previous) {
+    rememberPersisted(records);
+    await writeAll(db, records, true).catch(e => { persistedRecords = null; throw e; });
+    return;
+  }
+
+  const tx = db.transaction(STORES.RECORDS, 'readwrite');
+  const store = tx.objectStore(STORES.RECORDS);
+  const kept = new Set<string>();
+  records.forEach(r => {
+    kept.add(r.id);
+    if (previous.get(r.id) !== r) store.put(r);
+  });
+  previous.forEach((_, id) => { if (!kept.has(id)) store.delete(id); });
+  // Updated before the write settles so an overlapping save diffs against this one
+  rememberPersisted(records);
+  await transactionDone(tx).catch(e => { persistedRecords = null; throw e; });
+};
+
+export const clearLedger = async (): Promise<void> => {
+  const db = await openLedgerDB();
+  const tx = db.transaction([STORES.RECORDS, STORES.IMPORTS], 'readwrite');
+  tx.objectStore(STORES.RECORDS).clear();
+  tx.objectStore(STORES.IMPORTS).clear();
+  await transactionDone(tx);
+  rememberPersisted([]);
+};
+
+/** Ids of the records last exchanged with the shared ledger; anything local outside this set was never pushed. */
+export const loadCloudSyncedIds = async (): Promise<string[]> => {
+  const db = await openLedgerDB();
+  const tx = db.transaction(STORES.META, 'readonly');
+  const ids = await requestToPromise(tx.objectStore(STORES.META).get(CLOUD_SYNCED_IDS_KEY));
+  return Array.isArray(ids) ? ids : [];
+};
+
+export const saveCloudSyncedIds = async (ids: string[]): Promise<void> => {
+  const db = await openLedgerDB();
+  const tx = db.transaction(STORES.META, 'readwrite');
+  tx.objectStore(STORES.META).put(ids, CLOUD_SYNCED_IDS_KEY);
+  await transactionDone(tx);
+};
+
+export const loadImportBatches = async (): Promise<ImportBatch[]> => {
+  const db = await openLedgerDB();
+  const tx = db.transaction(STORES.IMPORTS, 'readonly');
+  const batches = await requestToPromise(tx.objectStore(STORES.IMPORTS).getAll());
+  return (batches as ImportBatch[]).sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+};
+
+export const saveImportBatches = async (batches: ImportBatch[]): Promise<void> => {
+  const db = await openLedgerDB();
+  const tx = db.transaction(STORES.IMPORTS, 'readwrite');
+  const store = tx.objectStore(STORES.IMPORTS);
+  store.clear();
+  batches.forEach(b => store.put(b));
+  await transactionDone(tx);
+};
+
+/** Saved AI analyses; null until the history has been written here at least once. */
+export const loadAIHistoryEntries = async (): Promise<AIAnalysisEntry[] | null> => {
+  const db = await openLedgerDB();
+  const tx = db.transaction(STORES.META, 'readonly');
+  const entries = await requestToPromise(tx.objectStore(STORES.META).get(AI_HISTORY_KEY));
+  return Array.isArray(entries) ? entries : null;
+};
+
+export const saveAIHistoryEntries = async (entries: AIAnalysisEntry[]): Promise<void> => {
+  const db = await openLedgerDB();
+  const tx = db.transaction(STORES.META, 'readwrite');
+  tx.objectStore(STORES.META).put(entries, AI_HISTORY_KEY);
+  await transactionDone(tx);
+};
@@ -0,0 +1,100 @@
+import { NamingConfusionPair, NamingConfusionSide, ShrinkRecord } from "../types";
+
+export const NAME_SIMILARITY_MIN = 0.8;
+// Smaller variance must be at least this share of the larger one to count as "similar magnitude"
+const MAGNITUDE_RATIO_MIN = 0.5;
+
+const normalizeName = (name: string): string => {
+  return String(name || '').toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+/**
+ * Best of character-level (Levenshtein) and token-level similarity. Token overlap is Jaccard
+ * (shared / union), so it is symmetric and a one-word name isn't a perfect match for every
+ * longer name containing it: "Cheeseburger" vs "Classic Cheeseburger" scores 0.5.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (!na || !nb) return 0;
+
+  const charScore = 1 - levenshtein(na, nb) / Math.max(na.length, nb.length);
+
+  const ta = new Set(na.split(' ').filter(t => t.length > 1));
+  const tb = new Set(nb.split(' ').filter(t => t.length > 1));
+  const shared = Array.from(ta).filter(t => tb.has(t)).length;
+  const union = ta.size + tb.size - shared;
+  const tokenScore = union > 0 ? shared / union : 0;
+
+  return Math.max(charScore, tokenScore);
+};
+
+const side = (r: ShrinkRecord): NamingConfusionSide => ({
+  itemNumber: r.itemNumber,
+  itemName: r.itemName,
+  invVariance: r.invVariance,
+  unitCost: r.unitCost
+});
+
+/** Pair look-alike items with opposite, similar-sized variances. Each record joins at most one pair. */
+export const detectNamingConfusion = (records: ShrinkRecord[]): NamingConfusionPair[] => {
+  const groups: Record<string, ShrinkRecord[]> = {};
+  records.forEach(r => {
+    if (!r.invVariance) return;
+    const key = `${r.marketName}::${r.period}`;
+    (groups[key] = groups[key] || []).push(r);
+  });
+
+  const pairs: NamingConfusionPair[] = [];
+  Object.values(groups).forEach(group => {
+    const overages = group.filter(r => r.invVariance > 0);
+    const shortages = group.filter(r => r.invVariance < 0);
+
+    const candidates: { over: ShrinkRecord; short: ShrinkRecord; similarity: number }[] = [];
+    overages.forEach(over => {
+      shortages.forEach(short => {
+        if (over.itemNumber && over.itemNumber === short.itemNumber) return;
+        const a = over.invVariance, b = Math.abs(short.invVariance);
+        if (Math.min(a, b) / Math.max(a, b) < MAGNITUDE_RATIO_MIN) return;
+        const similarity = nameSimilarity(over.itemName, short.itemName);
+        if (similarity >= NAME_SIMILARITY_MIN) candidates.push({ over, short, similarity });
+      });
+    });
+
+    // Greedy: strongest name match first, then closest quantities
+    candidates.sort((x, y) => y.similarity - x.similarity
+      || Math.abs(x.over.invVariance + x.short.invVariance) - Math.abs(y.over.invVariance + y.short.invVariance));
+    const used = new Set<string>();
+    candidates.forEach(({ over, short, similarity }) => {
+      if (used.has(over.id) || used.has(short.id)) return;
+      used.add(over.id);
+      used.add(short.id);
+      const matchedQty = Math.min(over.invVariance, Math.abs(short.invVariance));
+      pairs.push({
+        marketName: over.marketName,
+        period: over.period,
+        overage: side(over),
+        shrink: side(short),
+        similarity,
+        matchedQty,
+        explainedShrink: matchedQty * (short.unitCost || 0),
+        residualNet: (over.overageGain || 0) - (short.shrinkLoss || 0)
+      });
+    });
+  });
+
+  return pairs.sort((a, b) => b.explainedShrink - a.explainedShrink);
+};
@@ -0,0 +1,157 @@
+import { FreezerCount, ParLevel, ParsedSheet, ReorderSimulation, ShrinkRecord } from "../types";
+import { allocateFreezerCounts, freezerItemKey } from "./freezerService";
+import { SegmentClassifier } from "./segmentService";
+
+const PAR_STORAGE_KEY = 'shrink_par_levels_v1';
+const HEADER_SCAN_ROWS = 10;
+
+const parKey = (marketName: string, itemKey: string) => `${marketName}::${itemKey}`;
+
+export const buildParIndex = (levels: ParLevel[]): Record<string, number> => {
+  const index: Record<string, number> = {};
+  levels.forEach(l => { index[parKey(l.marketName, l.itemKey)] = l.par; });
+  return index;
+};
+
+export const parLevelFor = (index: Record<string, number>, r: ShrinkRecord): number => {
+  return index[parKey(r.marketName, freezerItemKey(r.itemNumber, r.itemName))] || 0;
+};
+
+/** Replace one item's par; zero or blank removes it. */
+export const setParLevel = (levels: ParLevel[], marketName: string, itemKey: string, itemName: string, par: number): ParLevel[] => {
+  const rest = levels.filter(l => !(l.marketName === marketName && l.itemKey === itemKey));
+  return par > 0 ? [...rest, { marketName, itemKey, itemName, par }] : rest;
+};
+
+/** Imported pars overwrite existing entries for the same market and item. */
+export const mergeParLevels = (levels: ParLevel[], imported: ParLevel[]): ParLevel[] => {
+  const merged: Record<string, ParLevel> = {};
+  [...levels, ...imported].forEach(l => { merged[parKey(l.marketName, l.itemKey)] = l; });
+  return Object.values(merged);
+};
+
+const findColumn = (header: string[], patterns: RegExp[]) => header.findIndex(h => patterns.some(p => p.test(h)));
+
+// Par sheets often carry a "Market Name" or "Location Name" beside the item, so a bare "name" is the last resort
+const NON_ITEM_NAME = /market|location|site|route|driver/;
+
+const findItemNameColumn = (header: string[]) => {
+  const explicit = findColumn(header, [/item\s*name/, /product/, /desc/]);
+  return explicit !== -1 ? explicit : header.findIndex(h => /name/.test(h) && !NON_ITEM_NAME.test(h));
+};
+
+interface ParColumns {
+  headerIdx: number;
+  parCol: number;
+  numCol: number;
+  nameCol: number;
+  marketCol: number;
+}
+
+const readParColumns = (sheet: ParsedSheet): ParColumns | null => {
+  const headerIdx = sheet.rows.slice(0, HEADER_SCAN_ROWS).findIndex(row => row.some(c => /\bpar\b/i.test(String(c))));
+  if (headerIdx === -1) return null;
+  const header = sheet.rows[headerIdx].map(c => String(c).toLowerCase().trim());
+
+  const columns = {
+    headerIdx,
+    parCol: findColumn(header, [/\bpar\b/]),
+    numCol: findColumn(header, [/item\s*(#|num|no|code)/, /^sku/, /^upc/]),
+    nameCol: findItemNameColumn(header),
+    marketCol: findColumn(header, [/market/, /location/])
+  };
+  return columns.numCol === -1 && columns.nameCol === -1 ? null : columns;
+};
+
+/** True when some par sheet has no Market column, so the user has to say which market its rows are for. */
+export const parSheetsNeedMarket = (sheets: ParsedSheet[]): boolean => {
+  return sheets.some(sheet => {
+    const columns = readParColumns(sheet);
+    return columns !== null && columns.marketCol === -1;
+  });
+};
+
+/**
+ * Reads par sheets with a header row containing "Par" plus an item number or name column.
+ * A "Market" column wins; otherwise rows belong to `fallbackMarket`, the market the user picked.
+ */
+export const extractParLevels = (sheets: ParsedSheet[], fallbackMarket = ''): ParLevel[] => {
+  const levels: ParLevel[] = [];
+  sheets.forEach(sheet => {
+    const columns = readParColumns(sheet);
+    if (!columns) return;
+    const { headerIdx, parCol, numCol, nameCol, marketCol } = columns;
+
+    sheet.rows.slice(headerIdx + 1).forEach(row => {
+      const par = parseFloat(String(row[parCol]).replace(/[^0-9.]/g, ''));
+      const itemNumber = numCol !== -1 ? String(row[numCol]).trim() : '';
+      const itemName = nameCol !== -1 ? String(row[nameCol]).trim() : '';
+      const marketName = marketCol !== -1 ? String(row[marketCol]).trim() : fallbackMarket;
+      if (!(par > 0) || !(itemNumber || itemName) || !marketName) return;
+      levels.push({ marketName, itemKey: freezerItemKey(itemNumber, itemName), itemName: itemName || itemNumber, par });
+    });
+  });
+  return levels;
+};
+
+/**
+ * Seed pre-picks the next delivery as (par - system on-hand). Starting from a market filled to par,
+ * sold units and any units stranded in the depot leave the machine short.
+ * - Clears the Add: Seed never counts the stranded units, so it picks them again.
+ * - Keeps the Add: Seed believes they're in the machine, picks normally, and the next scan books them as shrink.
+ * Stranded units come from the freezer count when one exists, otherwise from the period's shortage.
+ * Only counted units are phantom shrink; a shortage-based figure is an unconfirmed estimate.
+ */
+export const simulateReorders = (
+  records: ShrinkRecord[],
+  levels: ParLevel[],
+  counts: FreezerCount[],
+  classifySegment: SegmentClassifier
+): ReorderSimulation[] => {
+  const parIndex = buildParIndex(levels);
+  // Duplicate rows share the item's count, matching the freezer reconciliation
+  const applied = allocateFreezerCounts(records, counts);
+
+  return records
+    .filter(r => classifySegment(r.itemNumber, r.itemName).kind !== 'ambient')
+    .map(r => {
+      const par = parLevelFor(parIndex, r);
+      // A counted item stays on its count even when this row's share of it is zero
+      const isCounted = r.id in applied;
+      const depotSource: ReorderSimulation['depotSource'] = isCounted ? 'count' : r.invVariance < 0 ? 'variance' : 'none';
+      const depotUnits = isCounted ? applied[r.id] : Math.max(0, -r.invVariance);
+      const sold = Math.max(0, r.soldQty || 0);
+
+      const onHandIfCleared = Math.max(0, par - sold - depotUnits);
+      const onHandIfKept = Math.max(0, par - sold);
+      const pickIfCleared = Math.max(0, par - onHandIfCleared);
+      const pickIfKept = Math.max(0, par - onHandIfKept);
+      const excessUnits = pickIfCleared - pickIfKept;
+
+      return {
+        record: r,
+        par,
+        depotUnits,
+        depotSource,
+        pickIfCleared,
+        pickIfKept,
+        excessUnits,
+        excessCost: excessUnits * (r.unitCost || 0),
+        phantomShrink: depotSource === 'count' ? depotUnits * (r.unitCost || 0) : 0,
+        estimatedPhantomShrink: depotSource === 'variance' ? depotUnits * (r.unitCost || 0) : 0
+      };
+    });
+};
+
+export const loadParLevels = (): ParLevel[] => {
+  try {
+    const saved = localStorage.getItem(PAR_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) { return []; }
+};
+
+export const saveParLevels = (levels: ParLevel[]) => {
+  try {
+    localStorage.setItem(PAR_STORAGE_KEY, JSON.stringify(levels));
+  } catch (e) { console.warn("Storage quota limit reached."); }
+};
@@ -0,0 +1,83 @@
+import { YearMonth } from "../types";
+
+export const MONTH_ORDER = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Canonical period keys are "YYYY-MM" so they sort chronologically as plain strings
+export const toPeriodKey = (year: number, month: number): string => {
+  return `${year}-${String(month).padStart(2, '0')}`;
+};
+
+export const parsePeriodKey = (key: string): YearMonth | null => {
+  const match = /^(\d{4})-(\d{2})$/.exec(key || '');
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) return null;
+  return { year, month };
+};
+
+export const isPeriodKey = (key: string): boolean => parsePeriodKey(key) !== null;
+
+/** Move a period key forward (or back, with a negative count) by whole months. */
+export const shiftPeriod = (key: string, months: number): string => {
+  const parsed = parsePeriodKey(key);
+  if (!parsed) return key;
+  const index = parsed.year * 12 + (parsed.month - 1) + months;
+  return toPeriodKey(Math.floor(index / 12), (index % 12) + 1);
+};
+
+export const currentPeriodKey = (now: Date = new Date()): string => {
+  return toPeriodKey(now.getFullYear(), now.getMonth() + 1);
+};
+
+// Legacy data only stored a month name. Assume the most recent occurrence of that month
+// that is not in the future (e.g. "December" seen in October 2026 means December 2025).
+const latestOccurrenceOf = (month: number, now: Date = new Date()): string => {
+  const year = month > now.getMonth() + 1 ? now.getFullYear() - 1 : now.getFullYear();
+  return toPeriodKey(year, month);
+};
+
+/**
+ * Coerce any period-ish string ("2025-01", "01/2025", "Jan 2025", "January") into a
+ * canonical "YYYY-MM" key. Unrecognised strings are returned unchanged.
+ */
+export const normalizePeriod = (str: string): string => {
+  if (!str) return 'Unknown';
+  const trimmed = str.trim();
+  if (isPeriodKey(trimmed)) return trimmed;
+
+  const numeric = /^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?$/.exec(trimmed);
+  if (numeric) {
+    const month = Number(numeric[2]);
+    if (month >= 1 && month <= 12) return toPeriodKey(Number(numeric[1]), month);
+  }
+  const usStyle = /^(\d{1,2})[-/.](?:\d{1,2}[-/.])?(\d{4})$/.exec(trimmed);
+  if (usStyle) {
+    const month = Number(usStyle[1]);
+    if (month >= 1 && month <= 12) return toPeriodKey(Number(usStyle[2]), month);
+  }
+
+  const normalized = trimmed.toLowerCase();
+  const yearMatch = /(?:^|\D)((?:19|20)\d{2})(?!\d)/.exec(normalized);
+  // A word matches a month when it is a 3+ letter prefix of its name ("Jan", "Sept", "March")
+  const words = normalized.split(/[^a-z]+/).filter(w => w.length >= 3);
+  for (let i = 0; i < MONTH_ORDER.length; i++) {
+    const name = MONTH_ORDER[i].toLowerCase();
+    if (words.some(w => name.startsWith(w))) {
+      return yearMatch ? toPeriodKey(Number(yearMatch[1]), i + 1) : latestOccurrenceOf(i + 1);
+    }
+  }
+  return trimmed;
+};
+
+export const formatPeriodLabel = (key: string, short = false): string => {
+  const ym = parsePeriodKey(key);
+  if (!ym) return key;
+  const name = MONTH_ORDER[ym.month - 1];
+  return `${short ? name.slice(0, 3) : name} ${ym.year}`;
+};
+
+export const comparePeriods = (a: string, b: string): number => a.localeCompare(b);
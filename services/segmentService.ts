@@ -0,0 +1,78 @@
+import { SegmentDefinition, SegmentKind } from "../types";
+
+const SEGMENTS_STORAGE_KEY = 'shrink_segment_rules_v1';
+
+// Checked in order; the first segment whose rules match claims the item
+export const DEFAULT_SEGMENTS: SegmentDefinition[] = [
+  { id: 'FROZEN', label: 'Frozen', kind: 'frozen', matchType: 'regex', patterns: ['\\bfrozen\\b', '\\bice cream\\b', '\\bpopsicle', '\\bgelato\\b', '\\bice pop\\b'] },
+  { id: 'COLD', label: 'Cold Food', kind: 'cold', matchType: 'prefix', patterns: ['KF', 'F ', 'B '] }
+];
+
+// Catch-all for anything no rule claims; keeps the id the segment filter has always stored
+export const FALLBACK_SEGMENT: SegmentDefinition = { id: 'SODA_SNACK', label: 'Snacks & Drinks', kind: 'ambient', matchType: 'items', patterns: [] };
+
+export const SEGMENT_KIND_LABELS: Record<SegmentKind, string> = {
+  cold: 'Cold Food (Tablet Adds)',
+  frozen: 'Frozen (Depot Freezer)',
+  ambient: 'Ambient (Manual Count)'
+};
+
+export type SegmentClassifier = (itemNumber: string, itemName: string) => SegmentDefinition;
+
+/** Returns an error message for an invalid regex pattern, or null when it compiles. */
+export const validateSegmentPattern = (matchType: SegmentDefinition['matchType'], pattern: string): string | null => {
+  if (matchType !== 'regex') return null;
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (e: any) {
+    return e?.message || 'Invalid pattern';
+  }
+};
+
+const compileMatcher = (segment: SegmentDefinition): ((code: string, name: string) => boolean) => {
+  const patterns = segment.patterns.filter(p => p.length > 0);
+  if (segment.matchType === 'prefix') {
+    const prefixes = patterns.map(p => p.toLowerCase());
+    return (code, name) => prefixes.some(p => code.startsWith(p) || name.startsWith(p));
+  }
+  if (segment.matchType === 'regex') {
+    const regexes = patterns.filter(p => !validateSegmentPattern('regex', p)).map(p => new RegExp(p, 'i'));
+    return (code, name) => regexes.some(re => re.test(code) || re.test(name));
+  }
+  const items = new Set(patterns.map(p => p.trim().toLowerCase()));
+  return (code, name) => items.has(code.trim()) || items.has(name.trim());
+};
+
+export const buildSegmentClassifier = (segments: SegmentDefinition[]): SegmentClassifier => {
+  const compiled = segments.map(segment => ({ segment, matches: compileMatcher(segment) }));
+  return (itemNumber, itemName) => {
+    const code = String(itemNumber || '').toLowerCase();
+    const name = String(itemName || '').toLowerCase();
+    return compiled.find(c => c.matches(code, name))?.segment || FALLBACK_SEGMENT;
+  };
+};
+
+/** Every selectable segment, including the catch-all. */
+export const withFallbackSegment = (segments: SegmentDefinition[]): SegmentDefinition[] => [...segments, FALLBACK_SEGMENT];
+
+export const describeSegmentRule = (segment: SegmentDefinition): string => {
+  if (segment === FALLBACK_SEGMENT) return 'anything not matched by another segment';
+  const list = segment.patterns.map(p => `"${p}"`).join(', ');
+  if (segment.matchType === 'prefix') return `Item Number or Name starts with ${list}`;
+  if (segment.matchType === 'regex') return `Item Number or Name matches ${list} (case-insensitive regex)`;
+  return `Item Number or Name is one of ${list}`;
+};
+
+export const loadSegmentDefinitions = (): SegmentDefinition[] => {
+  try {
+    const saved = localStorage.getItem(SEGMENTS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_SEGMENTS;
+  } catch (e) { return DEFAULT_SEGMENTS; }
+};
+
+export const saveSegmentDefinitions = (segments: SegmentDefinition[]) => {
+  try {
+    localStorage.setItem(SEGMENTS_STORAGE_KEY, JSON.stringify(segments));
+  } catch (e) { console.warn("Storage quota limit reached."); }
+};
@@ -14,9 +14,326 @@ export interface ShrinkRecord {
   itemProfit: number;
   category: string;
   marketName: string;
-  period: string; // e.g., "2024-01" or "January"
+  period: string; // Canonical "YYYY-MM" key, e.g. "2024-01"
+}
+
+export interface YearMonth {
+  year: number;
+  month: number; // 1-12
+}
+
+export type ColumnField = 'itemNum' | 'itemName' | 'variance' | 'revenue' | 'soldQty' | 'salePrice' | 'itemCost';
+
+// Column index per field; -1 means the field is not present in the sheet
+export type ColumnMap = Record<ColumnField, number>;
+
+export interface ParsedSheet {
+  name: string;
+  rows: any[][];
+  marketName: string;
+  headerRowIndex: number; // -1 when no header row was found
+  colMap: ColumnMap;
+  detected: ColumnField[]; // Fields matched by header text rather than positional fallback
+  manual?: ColumnField[];  // Fields reassigned by hand in the mapping step
+  signature: string;       // Normalized header row, used to match saved mapping profiles
+  included: boolean;
+  skipReason?: string;
+  profileId?: string;
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  signature: string;
+  colMap: ColumnMap;
+  createdAt: string;
+}
+
+// A row extracted from an upload, held for review before it becomes a ShrinkRecord.
+// Variance and cost stay as raw text so the validation step can flag and fix them.
+export interface DraftRow {
+  id: string;
+  source: string;      // Sheet name, or the paste source
+  rowNumber: number;   // 1-based row in the source sheet
+  marketName: string;
+  itemNumber: string;
+  itemName: string;
+  variance: string;
+  unitCost: string;
+  totalRevenue: number;
+  soldQty: number;
+  salePrice: number;
+  excluded: boolean;
+}
+
+export type ValidationIssueKind = 'non-numeric-variance' | 'non-numeric-cost' | 'missing-cost' | 'duplicate-item' | 'total-row';
+
+export interface ValidationIssue {
+  rowId: string;
+  kind: ValidationIssueKind;
+  message: string;
+}
+
+export interface SkippedSheet {
+  name: string;
+  reason: string;
+}
+
+// How a segment's items move through Seed: 'cold' and 'frozen' are scanned but received via tablet Adds;
+// 'ambient' items are hand counted
+export type SegmentKind = 'cold' | 'frozen' | 'ambient';
+export type SegmentMatchType = 'prefix' | 'regex' | 'items';
+
+export interface SegmentDefinition {
+  id: string;
+  label: string;
+  kind: SegmentKind;
+  matchType: SegmentMatchType;
+  patterns: string[]; // Prefixes, regex sources or item numbers/names, depending on matchType
+}
+
+// Who serviced a market in a given period
+export interface DriverAssignment {
+  period: string;
+  marketName: string;
+  driver: string;
+}
+
+export interface DriverScorecard {
+  driver: string;
+  markets: string[];
+  revenue: number;
+  shrink: number;
+  overage: number;
+  shrinkPct: number;
+  overagePct: number;
+  integrity: number;
+  missedAdds: number;     // Overage on tablet-received (cold/frozen) items
+  frozenShrink: number;   // Shrink on frozen items, the depot-freezer signature
+}
+
+export interface NamingConfusionSide {
+  itemNumber: string;
+  itemName: string;
+  invVariance: number;
+  unitCost: number;
+}
+
+// An overage and a shrink on look-alike items in one market and period: likely a tablet mis-selection
+export interface NamingConfusionPair {
+  marketName: string;
+  period: string;
+  overage: NamingConfusionSide;
+  shrink: NamingConfusionSide;
+  similarity: number;      // 0-1 name similarity
+  matchedQty: number;      // Units the two variances offset
+  explainedShrink: number; // $ of shrink accounted for by the mis-selection
+  residualNet: number;     // Net $ left on the pair after netting
+}
+
+// Units found in the depot freezer during reconciliation; they were on hand, just not in the market
+export interface FreezerCount {
+  period: string;
+  marketName: string;
+  itemKey: string;   // Item number, or name when unnumbered
+  count: number;
+}
+
+export interface FreezerAdjustment {
+  adjustedVariance: number;
+  adjustedShrink: number;
+  phantomShrink: number; // Shrink the freezer count explains away
+}
+
+export interface ParLevel {
+  marketName: string;
+  itemKey: string;   // Same key as FreezerCount
+  itemName: string;
+  par: number;
+}
+
+export type DepotUnitSource = 'count' | 'variance' | 'none';
+
+export interface ReorderSimulation {
+  record: ShrinkRecord;
+  par: number;
+  depotUnits: number;       // Units delivered but left in the depot
+  depotSource: DepotUnitSource;
+  pickIfCleared: number;    // Next pick when the driver clears the Add
+  pickIfKept: number;       // Next pick when the driver keeps the Add
+  excessUnits: number;      // Extra units picked because of the cleared Add
+  excessCost: number;
+  phantomShrink: number;    // Shrink booked at the next scan when the Add is kept (counted units only)
+  estimatedPhantomShrink: number; // Same, assuming the uncounted shortage is in the depot
+}
+
+export type AnomalyMethod = 'mad' | 'zscore';
+export type AnomalyScope = 'item' | 'market';
+
+export interface VarianceAnomaly {
+  scope: AnomalyScope;
+  marketName: string;
+  period: string;
+  itemNumber: string;   // Blank for market-level anomalies
+  itemName: string;
+  value: number;        // Net variance $ this period (overage - shrink)
+  baseline: number;     // Historical median (MAD) or mean (z-score)
+  spread: number;       // Historical MAD or standard deviation
+  score: number;        // Signed; negative breaks toward shrink
+  historyPeriods: number;
+}
+
+export type ForecastMetric = 'shrinkPct' | 'overagePct' | 'integrity';
+export type ForecastScope = 'total' | 'market' | 'segment';
+
+export interface ForecastPoint {
+  period: string;
+  value: number;
+  lower: number;  // 95% prediction band
+  upper: number;
+}
+
+export interface SeriesForecast {
+  scope: ForecastScope;
+  label: string;
+  historyPeriods: number;
+  latest: Record<ForecastMetric, number>;           // Last actual value
+  forecasts: Record<ForecastMetric, ForecastPoint[]>; // Empty when history is too short
+}
+
+export interface PeriodMetrics {
+  revenue: number;
+  shrink: number;
+  overage: number;
+  net: number;          // overage - shrink
+  shrinkPct: number;
+  overagePct: number;
+  integrity: number;
+}
+
+export interface PeriodDelta {
+  key: string;
+  label: string;
+  a: PeriodMetrics | null; // null when absent from that period
+  b: PeriodMetrics | null;
+}
+
+export type TopListChangeKind = 'new' | 'dropped' | 'flipped';
+
+export interface TopListChange {
+  itemName: string;
+  kind: TopListChangeKind;
+  rankA: number | null;  // 1-based rank in period A's list
+  rankB: number | null;
+  netA: number;
+  netB: number;
+}
+
+export interface PeriodComparison {
+  totals: PeriodDelta;
+  markets: PeriodDelta[];
+  segments: PeriodDelta[];
+  items: PeriodDelta[];
+  topShrink: TopListChange[];
+  topOverage: TopListChange[];
+}
+
+export type BenchmarkMetric = 'shrinkPct' | 'overagePct' | 'integrity' | 'receivingScore' | 'processScore';
+
+export interface MarketBenchmark {
+  marketName: string;
+  revenue: number;
+  shrinkPct: number;
+  overagePct: number;
+  integrity: number;
+  receivingScore: number; // |Cold & frozen variance| as % of revenue (tablet Add errors)
+  processScore: number;   // Ambient overage as % of revenue (counting errors)
+}
+
+export interface MarketPeerGroup {
+  id: string;
+  name: string;
+  markets: string[];
+}
+
+export type DrilldownDimension = 'item' | 'market' | 'category';
+
+export type SpreadsheetFormat = 'xlsx' | 'xls' | 'ods' | 'csv' | 'tsv';
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+// What the importer detected about an uploaded file; encoding and delimiter only apply to CSV/TSV
+export interface DetectedFormat {
+  format: SpreadsheetFormat;
+  encoding?: TextEncoding;
+  delimiter?: string;
+}
+
+export type ImportBatchStatus = 'applied' | 'rolled-back';
+
+// 'replace' swaps out the whole period; 'merge' keeps existing rows and lets the new file win on conflicts
+export type ImportMode = 'replace' | 'merge';
+
+export interface ImportBatch {
+  id: string;
+  fileName: string;
+  importedAt: string; // ISO timestamp
+  period: string;     // Canonical "YYYY-MM" key the file was imported into
+  markets: string[];
+  rowCount: number;
+  mode: ImportMode;
+  records: ShrinkRecord[];         // Records this upload created
+  replacedRecords: ShrinkRecord[]; // Records it displaced, restored on rollback
+  status: ImportBatchStatus;
 }
 
 export type DeepDiveStatus = 'idle' | 'analyzing' | 'ready';
 
-export type ViewType = 'dashboard' | 'report-upload' | 'ai-insights';
\ No newline at end of file
+// Human-readable summary of the shared filters, as printed on exports and saved with AI analyses
+export interface ViewFilters {
+  periods: string[]; // Empty means every period
+  market: string;
+  segment: string;
+  category: string;
+}
+
+// Headline KPIs of the filtered view, shared by the dashboard, the audit report and the workbook export
+export interface ForensicStats {
+  totalRevenue: number;
+  totalShrink: number;
+  totalOverage: number;
+  netVariance: number;
+  shrinkPct: number;
+  overagePct: number;
+  netPct: number;
+  accuracy: number;
+  count: number;
+  phantomShrink: number; // Part of totalShrink explained by freezer counts
+  realShrink: number;
+}
+
+export type ChatRole = 'user' | 'model';
+
+// One turn of the Forensic Vault thread; only role and text are sent back to Gemini
+export interface ChatTurn {
+  role: ChatRole;
+  text: string;
+  filters?: ViewFilters; // User turns: the filters the data context was built from
+  failed?: boolean;      // Model turns that errored are shown but never replayed
+}
+
+export type AIAnalysisKind = 'quick' | 'deep';
+
+export interface AIAnalysisEntry {
+  id: string;
+  kind: AIAnalysisKind;
+  question: string;
+  model: string;     // Model that answered, as reported by the Worker
+  createdAt: string; // ISO timestamp
+  filters: ViewFilters;
+  response: string;
+  pinned: boolean;
+}
+
+export type CloudSyncStatus = 'local' | 'syncing' | 'synced' | 'error' | 'locked';
+
+export type ViewType = 'dashboard' | 'report-upload' | 'ai-insights' | 'imports' | 'drivers' | 'freezer' | 'pars' | 'compare' | 'benchmark';
\ No newline at end of file
@@ -1,60 +1,392 @@
+import { GoogleGenAI, Type } from "@google/genai";
+
+// Minimal slices of the Durable Object bindings used by the shared ledger
+interface SqlStorage {
+  exec(query: string, ...bindings: unknown[]): { toArray(): any[] };
+}
+
+interface DurableObjectState {
+  storage: { sql: SqlStorage; transactionSync<T>(closure: () => T): T };
+}
+
+interface DurableObjectNamespace {
+  idFromName(name: string): unknown;
+  get(id: unknown): { fetch(request: Request): Promise<Response> };
+}
+
 export interface Env {
   ASSETS: { fetch: typeof fetch };
   API_KEY?: string;
+  // Team secret the app sends as a bearer token; API routes are closed until it is set
+  ACCESS_TOKEN?: string;
+  // Comma-separated browser origins allowed besides the Worker's own (e.g. the Vite dev server)
+  ALLOWED_ORIGINS?: string;
+  LEDGER?: DurableObjectNamespace;
+}
+
+// Models are pinned server-side so clients can't pick a pricier one; the prompt itself is
+// client-supplied, which is why the AI routes sit behind the same token and origin guard as the ledger.
+const QUICK_MODEL = "gemini-3-flash-preview";
+const DEEP_MODEL = "gemini-3-pro-preview";
+const PARSE_MODEL = "gemini-3-flash-preview";
+
+const jsonResponse = (body: unknown, status = 200, extraHeaders: Record<string, string> = {}) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json;charset=UTF-8',
+      ...extraHeaders
+    }
+  });
+};
+
+// CORS is only granted to the Worker's own origin and the ones listed in ALLOWED_ORIGINS
+const allowedOrigin = (request: Request, env: Env, url: URL): string | null => {
+  const origin = request.headers.get('Origin');
+  if (!origin) return null;
+  const listed = (env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+  return origin === url.origin || listed.includes(origin) ? origin : null;
+};
+
+const corsHeadersFor = (origin: string | null): Record<string, string> => origin ? {
+  'Access-Control-Allow-Origin': origin,
+  'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Vary': 'Origin',
+} : { 'Vary': 'Origin' };
+
+const withCors = (response: Response, origin: string | null): Response => {
+  const res = new Response(response.body, response);
+  Object.entries(corsHeadersFor(origin)).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+};
+
+// Compared in constant time so the token can't be recovered from response timings
+const hasAccessToken = (request: Request, env: Env): boolean => {
+  if (!env.ACCESS_TOKEN) return false;
+  const supplied = request.headers.get('Authorization') || '';
+  const expected = `Bearer ${env.ACCESS_TOKEN}`;
+  if (supplied.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= supplied.charCodeAt(i) ^ expected.charCodeAt(i);
+  return diff === 0;
+};
+
+// Browsers from unlisted origins are refused outright; every ledger or AI caller needs the team token
+const guardApiRequest = (request: Request, env: Env, url: URL): Response | null => {
+  if (request.headers.get('Origin') && !allowedOrigin(request, env, url)) {
+    return jsonResponse({ error: "ORIGIN_NOT_ALLOWED" }, 403);
+  }
+  if (!hasAccessToken(request, env)) return jsonResponse({ error: "AUTH_REQUIRED" }, 401);
+  return null;
+};
+
+// Map Gemini SDK failures onto the status codes the client already treats as auth problems
+const aiErrorResponse = (error: any) => {
+  const msg = error?.message || "Unknown AI error";
+  if (msg.includes("403") || msg.includes("401") || msg.includes("API key")) {
+    return jsonResponse({ error: "AUTH_REQUIRED" }, 401);
+  }
+  return jsonResponse({ error: msg }, 502);
+};
+
+const readPrompt = async (request: Request): Promise<string> => {
+  const body = await request.json().catch(() => ({})) as { prompt?: string };
+  return typeof body.prompt === 'string' ? body.prompt : '';
+};
+
+// Bounds what a client can send so the proxy can't be used for unbounded context
+const MAX_REQUEST_BYTES = 1_000_000;
+const MAX_PROMPT_CHARS = 100_000;
+const MAX_HISTORY_TURNS = 20;
+const MAX_TURN_CHARS = 20000;
+
+const promptTooLarge = () => jsonResponse({ error: `Prompt exceeds ${MAX_PROMPT_CHARS.toLocaleString()} characters.` }, 413);
+
+interface ChatContent {
+  role: 'user' | 'model';
+  parts: { text: string }[];
+}
+
+// Earlier Vault turns arrive as { role, text }; anything malformed is dropped rather than rejected
+const readHistory = (history: unknown): ChatContent[] => {
+  if (!Array.isArray(history)) return [];
+  return history
+    .filter((t: any) => t && (t.role === 'user' || t.role === 'model') && typeof t.text === 'string' && t.text.trim())
+    .slice(-MAX_HISTORY_TURNS)
+    .map((t: any) => ({ role: t.role, parts: [{ text: t.text.slice(0, MAX_TURN_CHARS) }] }));
+};
+
+const handleQuick = async (request: Request, ai: GoogleGenAI): Promise<Response> => {
+  const payload = await request.json().catch(() => ({})) as { prompt?: string; history?: unknown };
+  const prompt = typeof payload.prompt === 'string' ? payload.prompt : '';
+  if (!prompt.trim()) return jsonResponse({ error: "Prompt is required." }, 400);
+  if (prompt.length > MAX_PROMPT_CHARS) return promptTooLarge();
+
+  try {
+    const responseStream = await ai.models.generateContentStream({
+      model: QUICK_MODEL,
+      contents: [...readHistory(payload.history), { role: 'user', parts: [{ text: prompt }] }]
+    });
+
+    // Relay Gemini chunks as a plain text stream; the client accumulates them
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const chunk of responseStream) {
+            if (chunk.text) controller.enqueue(encoder.encode(chunk.text));
+          }
+          controller.close();
+        } catch (e) {
+          controller.error(e);
+        }
+      }
+    });
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/plain;charset=UTF-8',
+        'Cache-Control': 'no-store',
+        // The body is the bare text stream, so the model travels in a header for the client's history
+        'X-AI-Model': QUICK_MODEL,
+        'Access-Control-Expose-Headers': 'X-AI-Model'
+      }
+    });
+  } catch (error) {
+    return aiErrorResponse(error);
+  }
+};
+
+const handleDeep = async (request: Request, ai: GoogleGenAI): Promise<Response> => {
+  const prompt = await readPrompt(request);
+  if (!prompt.trim()) return jsonResponse({ error: "Prompt is required." }, 400);
+  if (prompt.length > MAX_PROMPT_CHARS) return promptTooLarge();
+
+  try {
+    const response = await ai.models.generateContent({
+      model: DEEP_MODEL,
+      contents: prompt,
+      config: {
+        thinkingConfig: { thinkingBudget: 4000 },
+        maxOutputTokens: 8000
+      }
+    });
+    return jsonResponse({ text: response.text || "", model: DEEP_MODEL });
+  } catch (error) {
+    return aiErrorResponse(error);
+  }
+};
+
+// Only this much pasted text is sent to the model; the response says so when more was supplied
+const PARSE_TEXT_LIMIT = 15000;
+
+const handleParse = async (request: Request, ai: GoogleGenAI): Promise<Response> => {
+  const body = await request.json().catch(() => ({})) as { text?: string };
+  const rawText = typeof body.text === 'string' ? body.text : '';
+  if (!rawText.trim()) return jsonResponse({ error: "Report text is required." }, 400);
+  if (rawText.length > MAX_PROMPT_CHARS) return promptTooLarge();
+
+  try {
+    const prompt = `Extract inventory data from this text. Focus on identifying the human-readable Market Name, the Reporting Period, and the itemized variances. Return valid JSON.\n\nTEXT:\n${rawText.slice(0, PARSE_TEXT_LIMIT)}`;
+
+    const response = await ai.models.generateContent({
+      model: PARSE_MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            detectedPeriod: { type: Type.STRING },
+            detectedMarket: { type: Type.STRING },
+            items: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  itemNumber: { type: Type.STRING },
+                  itemName: { type: Type.STRING },
+                  invVariance: { type: Type.NUMBER },
+                  totalRevenue: { type: Type.NUMBER },
+                  unitCost: { type: Type.NUMBER }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+    const truncatedAt = rawText.length > PARSE_TEXT_LIMIT ? PARSE_TEXT_LIMIT : null;
+    return jsonResponse({ ...JSON.parse(response.text || "{}"), truncatedAt });
+  } catch (error) {
+    return aiErrorResponse(error);
+  }
+};
+
+// The team ledger lives in one SQLite-backed Durable Object: one row per record, plus a
+// `revision` that increments on every write so clients can detect that a teammate changed it
+// since their last read. The object handles one request at a time and each write runs in a
+// single synchronous transaction, so the revision check and the write can't interleave.
+const LEDGER_OBJECT_NAME = 'team-ledger';
+
+interface LedgerMeta {
+  revision: number;
+  updatedAt: string | null;
 }
 
+const readMeta = (sql: SqlStorage): LedgerMeta => {
+  const rows = sql.exec(`SELECT revision, updated_at FROM ledger_meta WHERE id = 1`).toArray();
+  return rows.length ? { revision: rows[0].revision, updatedAt: rows[0].updated_at } : { revision: 0, updatedAt: null };
+};
+
+const bumpRevision = (sql: SqlStorage, previous: number): LedgerMeta => {
+  const meta = { revision: previous + 1, updatedAt: new Date().toISOString() };
+  sql.exec(`INSERT OR REPLACE INTO ledger_meta (id, revision, updated_at) VALUES (1, ?, ?)`, meta.revision, meta.updatedAt);
+  return meta;
+};
+
+const countRecords = (sql: SqlStorage): number => sql.exec(`SELECT COUNT(*) AS n FROM ledger_records`).toArray()[0].n;
+
+const readRecordsBody = async (request: Request): Promise<{ records: any[] | null; deletedIds: string[]; baseRevision?: number }> => {
+  const body = await request.json().catch(() => ({})) as { records?: unknown; deletedIds?: unknown; baseRevision?: unknown };
+  return {
+    records: Array.isArray(body.records) ? body.records.filter(r => r && typeof r.id === 'string') : null,
+    deletedIds: Array.isArray(body.deletedIds) ? body.deletedIds.filter((id): id is string => typeof id === 'string') : [],
+    baseRevision: typeof body.baseRevision === 'number' ? body.baseRevision : undefined
+  };
+};
+
+export class LedgerStore {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+    const { sql } = state.storage;
+    sql.exec(`CREATE TABLE IF NOT EXISTS ledger_records (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+    sql.exec(`CREATE TABLE IF NOT EXISTS ledger_meta (id INTEGER PRIMARY KEY, revision INTEGER NOT NULL, updated_at TEXT)`);
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const { sql } = this.state.storage;
+    const pathname = new URL(request.url).pathname.toLowerCase();
+
+    // POST /api/ledger/import: upsert a batch by record id and drop `deletedIds`, leaving every other
+    // record alone. Changes never conflict with a teammate's unrelated writes, so clients sync through here.
+    if (pathname.endsWith('/api/ledger/import')) {
+      if (request.method !== 'POST') return jsonResponse({ error: "Method not allowed." }, 405);
+      const { records, deletedIds } = await readRecordsBody(request);
+      if (!records) return jsonResponse({ error: "A records array is required." }, 400);
+
+      const meta = this.state.storage.transactionSync(() => {
+        records.forEach(r => sql.exec(`INSERT OR REPLACE INTO ledger_records (id, data) VALUES (?, ?)`, r.id, JSON.stringify(r)));
+        deletedIds.forEach(id => sql.exec(`DELETE FROM ledger_records WHERE id = ?`, id));
+        return bumpRevision(sql, readMeta(sql).revision);
+      });
+      return jsonResponse({ ...meta, count: countRecords(sql), imported: records.length, deleted: deletedIds.length });
+    }
+
+    if (request.method === 'GET') {
+      const records = sql.exec(`SELECT data FROM ledger_records`).toArray().map(row => JSON.parse(row.data));
+      return jsonResponse({ records, ...readMeta(sql) }, 200, { 'Cache-Control': 'no-store' });
+    }
+
+    // PUT /api/ledger: replace the ledger, rejecting writes based on a stale revision.
+    // Only rows that actually changed are written, so an edit doesn't rewrite the whole table.
+    if (request.method === 'PUT') {
+      const { records, baseRevision } = await readRecordsBody(request);
+      if (!records) return jsonResponse({ error: "A records array is required." }, 400);
+      // A replace without the revision it was based on would skip the conflict check entirely
+      if (baseRevision === undefined) return jsonResponse({ error: "A numeric baseRevision is required." }, 400);
+
+      const result = this.state.storage.transactionSync(() => {
+        const current = readMeta(sql);
+        if (baseRevision !== current.revision) return { conflict: current.revision };
+
+        const stored = new Map<string, string>(sql.exec(`SELECT id, data FROM ledger_records`).toArray().map(row => [row.id, row.data]));
+        records.forEach(r => {
+          const data = JSON.stringify(r);
+          if (stored.get(r.id) !== data) sql.exec(`INSERT OR REPLACE INTO ledger_records (id, data) VALUES (?, ?)`, r.id, data);
+          stored.delete(r.id);
+        });
+        stored.forEach((_, id) => sql.exec(`DELETE FROM ledger_records WHERE id = ?`, id));
+        return { meta: bumpRevision(sql, current.revision) };
+      });
+
+      if ('conflict' in result) return jsonResponse({ error: "LEDGER_CONFLICT", revision: result.conflict }, 409);
+      return jsonResponse({ ...result.meta, count: countRecords(sql) });
+    }
+
+    return jsonResponse({ error: "Method not allowed." }, 405);
+  }
+}
+
+// Everything under /api/; null lets the request fall through to the static assets
+const routeApi = async (request: Request, env: Env, url: URL, pathname: string): Promise<Response | null> => {
+  // Server-side Gemini proxy: the API key never leaves the Worker
+  if (pathname.includes('/api/ai/')) {
+    if (request.method !== 'POST') return jsonResponse({ error: "Method not allowed." }, 405);
+    const denied = guardApiRequest(request, env, url);
+    if (denied) return denied;
+    if (!env.API_KEY) return jsonResponse({ error: "AUTH_REQUIRED" }, 401);
+    if (Number(request.headers.get('Content-Length') || 0) > MAX_REQUEST_BYTES) {
+      return jsonResponse({ error: "Request body is too large." }, 413);
+    }
+
+    const ai = new GoogleGenAI({ apiKey: env.API_KEY });
+    if (pathname.endsWith('/api/ai/quick')) return handleQuick(request, ai);
+    if (pathname.endsWith('/api/ai/deep')) return handleDeep(request, ai);
+    if (pathname.endsWith('/api/ai/parse')) return handleParse(request, ai);
+    return jsonResponse({ error: "Unknown AI route." }, 404);
+  }
+
+  // Shared team ledger backed by the LEDGER Durable Object
+  if (pathname.includes('/api/ledger')) {
+    const denied = guardApiRequest(request, env, url);
+    if (denied) return denied;
+    if (!env.LEDGER) return jsonResponse({ error: "LEDGER_UNAVAILABLE" }, 503);
+    return env.LEDGER.get(env.LEDGER.idFromName(LEDGER_OBJECT_NAME)).fetch(request);
+  }
+
+  // Use a more permissive check that works regardless of base paths or trailing slashes
+  if (pathname.includes('/api/config')) {
+    return jsonResponse({ aiEnabled: !!env.API_KEY }, 200, {
+      'Cache-Control': 'no-store, no-cache, must-revalidate',
+      'X-Content-Type-Options': 'nosniff'
+    });
+  }
+
+  // Diagnostics stay behind the token and report only whether a key is held, never anything about it
+  if (pathname.includes('/api/debug-env')) {
+    const denied = guardApiRequest(request, env, url);
+    if (denied) return denied;
+    return jsonResponse({
+      status: "Worker Active",
+      key_detected: !!env.API_KEY,
+      request_url: request.url,
+      request_pathname: url.pathname
+    });
+  }
+
+  return null;
+};
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
     const pathname = url.pathname.toLowerCase();
-
-    // CORS Headers
-    const corsHeaders = {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, HEAD, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    };
+    const origin = allowedOrigin(request, env, url);
 
     // Handle CORS preflight requests
     if (request.method === 'OPTIONS') {
-      return new Response(null, { headers: corsHeaders });
-    }
-
-    // Use a more permissive check that works regardless of base paths or trailing slashes
-    if (pathname.includes('/api/config')) {
-      const payload = JSON.stringify({ API_KEY: env.API_KEY || "" });
-      return new Response(payload, { 
-        status: 200,
-        headers: { 
-          'Content-Type': 'application/json;charset=UTF-8',
-          'Cache-Control': 'no-store, no-cache, must-revalidate',
-          'X-Content-Type-Options': 'nosniff',
-          ...corsHeaders
-        } 
-      });
+      return new Response(null, { headers: corsHeadersFor(origin) });
     }
 
-    if (pathname.includes('/api/debug-env')) {
-      const key = env.API_KEY || "";
-      const payload = JSON.stringify({
-        status: "Worker Active",
-        env_keys: Object.keys(env).filter(k => k !== 'ASSETS'),
-        key_detected: !!key,
-        key_length: key.length,
-        key_preview: key ? `${key.substring(0, 4)}...${key.substring(key.length - 4)}` : "none",
-        request_url: request.url,
-        request_pathname: url.pathname
-      });
-      return new Response(payload, { 
-        status: 200,
-        headers: { 
-          'Content-Type': 'application/json;charset=UTF-8',
-          ...corsHeaders
-        } 
-      });
-    }
+    const apiResponse = await routeApi(request, env, url, pathname);
+    if (apiResponse) return withCors(apiResponse, origin);
 
     // Default to assets
     return await env.ASSETS.fetch(request);
   },
-};
\ No newline at end of file
+};